@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the development JWT issuer and its trust in verifyJwt
+ */
+
+import { decodeJwt } from "jose";
+import {
+  DEV_KEY_ID,
+  getDevJwks,
+  isDevIssuerEnabled,
+  mintDevToken,
+} from "@/lib/auth/dev-issuer";
+import { verifyJwt } from "@/lib/auth/jwt-verifier";
+
+describe("Development JWT issuer", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, DEV_JWT_ISSUER: "1" };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it("should only be enabled explicitly and never in production", () => {
+    expect(isDevIssuerEnabled()).toBe(true);
+
+    process.env = { ...process.env, NODE_ENV: "production" };
+    expect(isDevIssuerEnabled()).toBe(false);
+
+    process.env = { ...originalEnv };
+    expect(isDevIssuerEnabled()).toBe(false);
+  });
+
+  it("should publish the public key only", async () => {
+    const { keys } = await getDevJwks();
+
+    expect(keys).toEqual([
+      expect.objectContaining({ kid: DEV_KEY_ID, alg: "ES256", kty: "EC" }),
+    ]);
+    expect(keys[0]).not.toHaveProperty("d");
+  });
+
+  it("should mint tokens with the chosen claims that verifyJwt accepts", async () => {
+    const token = await mintDevToken({
+      userId: 7,
+      widgetId: 3,
+      resource: "charge_point",
+      resourceId: "12",
+      impersonate: false,
+    });
+
+    const payload = await verifyJwt(token, "http://localhost:3000");
+
+    expect(payload).toMatchObject({
+      iss: "https://demo.charge.ampeco.tech",
+      aud: "http://localhost:3000",
+      user_id: 7,
+      app_id: 1,
+      widget_id: 3,
+      resource: "charge_point",
+      resource_id: "12",
+      impersonate: false,
+    });
+  });
+
+  it("should reject expired development tokens", async () => {
+    const token = await mintDevToken({ expiresInSeconds: -120 });
+
+    await expect(verifyJwt(token)).rejects.toMatchObject({
+      reason: "expired",
+    });
+  });
+
+  it("should not trust development tokens once disabled", async () => {
+    const token = await mintDevToken();
+    expect(decodeJwt(token).user_id).toBe(1);
+    const fetchSpy = jest
+      .spyOn(global, "fetch")
+      .mockRejectedValue(new Error("offline"));
+
+    delete process.env.DEV_JWT_ISSUER;
+
+    await expect(verifyJwt(token)).rejects.toMatchObject({
+      reason: "jwks_unavailable",
+    });
+    expect(fetchSpy).toHaveBeenCalledWith(
+      "https://demo.charge.ampeco.tech/api/v1/marketplace/public-key",
+      expect.anything()
+    );
+  });
+
+  it("should refuse to mint tokens when disabled", async () => {
+    delete process.env.DEV_JWT_ISSUER;
+
+    await expect(mintDevToken()).rejects.toThrow("not enabled");
+  });
+});
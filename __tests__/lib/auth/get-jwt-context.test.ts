@@ -0,0 +1,70 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for reading the JWT context forwarded by the middleware
+ */
+
+import { headers } from "next/headers";
+import { getJwtContext, getWidgetContext } from "@/lib/auth/get-jwt-context";
+
+jest.mock("next/headers", () => ({ headers: jest.fn() }));
+
+describe("JWT context", () => {
+  const forwarded = {
+    "x-ampeco-user-id": "7",
+    "x-ampeco-app-id": "1",
+    "x-ampeco-widget-id": "3",
+    "x-ampeco-widget-name": encodeURIComponent("Charge point status"),
+    "x-ampeco-impersonate": "false",
+    "x-ampeco-jwt-token": "header.payload.signature",
+    "x-ampeco-tenant-url": "https://demo.charge.ampeco.tech",
+    "x-ampeco-resource": "charge_point",
+    "x-ampeco-resource-id": "12",
+  };
+
+  function mockHeaders(values: Record<string, string>) {
+    jest.mocked(headers).mockResolvedValue(new Headers(values) as never);
+  }
+
+  it("should read the full context", async () => {
+    mockHeaders(forwarded);
+
+    expect(await getJwtContext()).toEqual({
+      userId: 7,
+      appId: 1,
+      widgetId: 3,
+      widgetName: "Charge point status",
+      impersonate: false,
+      jwtToken: "header.payload.signature",
+      tenantUrl: "https://demo.charge.ampeco.tech",
+      resource: "charge_point",
+      resourceId: "12",
+    });
+  });
+
+  it("should report a missing resource id as null", async () => {
+    const rest: Record<string, string> = { ...forwarded };
+    delete rest["x-ampeco-resource-id"];
+    mockHeaders(rest);
+
+    expect(await getJwtContext()).toMatchObject({ resourceId: null });
+  });
+
+  it("should leave the token out of the widget context", async () => {
+    mockHeaders(forwarded);
+
+    const context = await getWidgetContext();
+
+    expect(context).toMatchObject({ widgetId: 3, resourceId: "12" });
+    expect(context).not.toHaveProperty("jwtToken");
+    expect(JSON.stringify(context)).not.toContain("header.payload.signature");
+  });
+
+  it("should return null without a verified JWT", async () => {
+    mockHeaders({});
+
+    expect(await getWidgetContext()).toBeNull();
+  });
+});
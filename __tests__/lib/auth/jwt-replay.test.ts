@@ -0,0 +1,132 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for JWT replay protection, using tokens from the development
+ * JWT issuer
+ */
+
+import { mintDevToken } from "@/lib/auth/dev-issuer";
+import {
+  MemoryJtiStore,
+  checkJwtUse,
+  consumeJwt,
+  setJtiStore,
+} from "@/lib/auth/jwt-replay";
+import { verifyJwt } from "@/lib/auth/jwt-verifier";
+
+describe("JWT replay protection", () => {
+  const originalEnv = process.env;
+
+  /**
+   * Mints and verifies a development token
+   */
+  async function mint() {
+    const token = await mintDevToken();
+    return { token, payload: await verifyJwt(token, "http://localhost:3000") };
+  }
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      DEV_JWT_ISSUER: "1",
+      AMPECO_JWT_REPLAY_PROTECTION: "1",
+      SESSION_SECRET: "a-session-secret-of-at-least-32-chars",
+    };
+    setJtiStore(new MemoryJtiStore());
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("should let a token start only one session", async () => {
+    const { token, payload } = await mint();
+
+    await expect(
+      consumeJwt(token, payload, "session")
+    ).resolves.toBeUndefined();
+    await expect(consumeJwt(token, payload, "session")).rejects.toMatchObject({
+      reason: "replayed",
+    });
+    await expect(consumeJwt(token, payload, "url")).rejects.toMatchObject({
+      reason: "replayed",
+    });
+  });
+
+  it("should keep accepting a token used in the URL, but not for a session", async () => {
+    const { token, payload } = await mint();
+
+    await consumeJwt(token, payload, "url");
+
+    await expect(consumeJwt(token, payload, "url")).resolves.toBeUndefined();
+    await expect(checkJwtUse(token, payload, "url")).resolves.toBe("url");
+    await expect(consumeJwt(token, payload, "session")).rejects.toMatchObject({
+      reason: "replayed",
+    });
+  });
+
+  it("should track tokens without jti by their hash", async () => {
+    const first = await mint();
+    const second = await mint();
+    expect(first.payload.jti).toBeUndefined();
+
+    await consumeJwt(first.token, first.payload, "session");
+
+    await expect(
+      consumeJwt(second.token, second.payload, "session")
+    ).resolves.toBeUndefined();
+  });
+
+  it("should prefer the jti claim", async () => {
+    const { token, payload } = await mint();
+
+    await consumeJwt(token, { ...payload, jti: "abc" }, "session");
+
+    await expect(
+      consumeJwt(`${token}.copy`, { ...payload, jti: "abc" }, "session")
+    ).rejects.toMatchObject({ reason: "replayed" });
+  });
+
+  it("should do nothing when disabled", async () => {
+    delete process.env.AMPECO_JWT_REPLAY_PROTECTION;
+    const { token, payload } = await mint();
+
+    await consumeJwt(token, payload, "session");
+
+    await expect(
+      consumeJwt(token, payload, "session")
+    ).resolves.toBeUndefined();
+    // Still recorded, so a URL token is not exchanged again
+    await expect(checkJwtUse(token, payload, "url")).resolves.toBe("session");
+  });
+
+  describe("MemoryJtiStore", () => {
+    it("should forget ids once they expire", async () => {
+      jest.useFakeTimers({ now: Date.parse("2025-01-06T08:00:00Z") });
+      const store = new MemoryJtiStore();
+
+      expect(await store.markUsed("a", "url", 1000)).toBeNull();
+      expect(await store.markUsed("a", "session", 1000)).toBe("url");
+      expect(await store.getUse("a")).toBe("url");
+      jest.advanceTimersByTime(1001);
+      expect(await store.getUse("a")).toBeNull();
+      expect(await store.markUsed("a", "session", 1000)).toBeNull();
+
+      jest.useRealTimers();
+    });
+
+    it("should stay within its size limit", async () => {
+      const store = new MemoryJtiStore(2);
+
+      await store.markUsed("a", "session", 60000);
+      await store.markUsed("b", "session", 60000);
+      await store.markUsed("c", "session", 60000);
+
+      // "a" was evicted as the oldest entry
+      expect(await store.markUsed("a", "session", 60000)).toBeNull();
+      expect(await store.markUsed("c", "session", 60000)).toBe("session");
+    });
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for JWT verification and JWKS key rotation
+ */
+
+import { exportJWK, generateKeyPair, SignJWT, type CryptoKey } from "jose";
+import { setJwtDenylist, verifyJwt } from "@/lib/auth/jwt-verifier";
+
+type SigningKey = { kid: string; privateKey: CryptoKey; jwk: object };
+
+describe("verifyJwt", () => {
+  const originalEnv = process.env;
+  let tenant: string;
+  let jwks: { keys: object[] };
+  let fetchSpy: jest.SpyInstance;
+  let oldKey: SigningKey;
+  let newKey: SigningKey;
+
+  async function createKey(kid: string): Promise<SigningKey> {
+    const { privateKey, publicKey } = await generateKeyPair("ES256");
+    const jwk = { ...(await exportJWK(publicKey)), kid, alg: "ES256" };
+    return { kid, privateKey, jwk };
+  }
+
+  function sign(
+    key: SigningKey,
+    kid: string = key.kid,
+    audience: string | string[] = "http://localhost:3000"
+  ): Promise<string> {
+    return new SignJWT({
+      user_id: 1,
+      app_id: 2,
+      widget_id: 3,
+      widget_name: "dashboard",
+      impersonate: true,
+      resource: "dashboard",
+    })
+      .setProtectedHeader({ alg: "ES256", kid })
+      .setIssuer(`https://${tenant}`)
+      .setAudience(audience)
+      .setIssuedAt()
+      .setExpirationTime("1h")
+      .sign(key.privateKey);
+  }
+
+  beforeAll(async () => {
+    oldKey = await createKey("1");
+    newKey = await createKey("2");
+  });
+
+  beforeEach(() => {
+    // A fresh tenant per test, so every test starts with an empty key set
+    tenant = `tenant-${Math.random().toString(36).slice(2)}.ampeco.tech`;
+    process.env = {
+      ...originalEnv,
+      AMPECO_BASE_DOMAIN: tenant,
+      AMPECO_JWT_AUDIENCES: "http://localhost:3000",
+    };
+    jwks = { keys: [oldKey.jwk] };
+    fetchSpy = jest
+      .spyOn(global, "fetch")
+      .mockImplementation(async () => Response.json(jwks));
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it("should select the key by kid and reuse the tenant key set", async () => {
+    const token = await sign(oldKey);
+
+    await expect(verifyJwt(token)).resolves.toMatchObject({ user_id: 1 });
+    await expect(verifyJwt(token)).resolves.toMatchObject({ user_id: 1 });
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe(`https://${tenant}/api/v1/marketplace/public-key`);
+    expect(new Headers(init.headers).get("authorization")).toBe(
+      "Bearer sk_test_mock_token"
+    );
+  });
+
+  it("should refetch the JWKS once when a rotated key shows up", async () => {
+    await verifyJwt(await sign(oldKey));
+
+    // AMPECO publishes the new key next to the old one
+    jwks = { keys: [oldKey.jwk, newKey.jwk] };
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now + 31 * 1000);
+
+    await expect(verifyJwt(await sign(newKey))).resolves.toMatchObject({
+      widget_id: 3,
+    });
+    await expect(verifyJwt(await sign(oldKey))).resolves.toMatchObject({
+      widget_id: 3,
+    });
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not refetch for unknown kids during the cooldown", async () => {
+    await verifyJwt(await sign(oldKey));
+
+    await expect(verifyJwt(await sign(newKey))).rejects.toMatchObject({
+      reason: "unknown_key",
+    });
+    await expect(verifyJwt(await sign(newKey, "bogus"))).rejects.toMatchObject({
+      reason: "unknown_key",
+    });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject tokens signed with a retired key", async () => {
+    jwks = { keys: [newKey.jwk] };
+
+    await expect(verifyJwt(await sign(newKey))).resolves.toBeDefined();
+    await expect(verifyJwt(await sign(oldKey))).rejects.toMatchObject({
+      reason: "unknown_key",
+    });
+  });
+
+  it("should reject a token whose kid points to another key", async () => {
+    jwks = { keys: [oldKey.jwk, newKey.jwk] };
+
+    await expect(verifyJwt(await sign(newKey, "1"))).rejects.toMatchObject({
+      reason: "invalid_signature",
+    });
+  });
+
+  it("should verify tokens against the tenant named by iss", async () => {
+    const token = await sign(oldKey);
+    process.env.AMPECO_BASE_DOMAIN = "default.charge.ampeco.tech";
+    process.env.AMPECO_TENANTS = JSON.stringify({
+      [tenant]: { apiToken: "sk_tenant" },
+    });
+
+    await expect(verifyJwt(token)).resolves.toMatchObject({
+      iss: `https://${tenant}`,
+    });
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe(`https://${tenant}/api/v1/marketplace/public-key`);
+    expect(new Headers(init.headers).get("authorization")).toBe(
+      "Bearer sk_tenant"
+    );
+  });
+
+  it("should reject issuers that are not configured tenants", async () => {
+    const token = await sign(oldKey);
+    process.env.AMPECO_BASE_DOMAIN = "default.charge.ampeco.tech";
+
+    await expect(verifyJwt(token)).rejects.toMatchObject({
+      reason: "invalid_issuer",
+    });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("should report an unavailable JWKS endpoint", async () => {
+    fetchSpy.mockImplementation(
+      async () => new Response("Unauthorized", { status: 401 })
+    );
+
+    await expect(verifyJwt(await sign(oldKey))).rejects.toMatchObject({
+      reason: "jwks_unavailable",
+    });
+  });
+
+  describe("audience", () => {
+    it("should accept configured audiences and preview patterns", async () => {
+      process.env.AMPECO_JWT_AUDIENCES =
+        "https://widget.example.com, https://widget-*.vercel.app";
+
+      await expect(
+        verifyJwt(await sign(oldKey, "1", "https://widget.example.com/"))
+      ).resolves.toBeDefined();
+      await expect(
+        verifyJwt(
+          await sign(oldKey, "1", "https://widget-git-feature-team.vercel.app")
+        )
+      ).resolves.toBeDefined();
+      await expect(
+        verifyJwt(
+          await sign(oldKey, "1", ["other", "https://widget.example.com"])
+        )
+      ).resolves.toBeDefined();
+    });
+
+    it("should reject audiences outside the configuration", async () => {
+      process.env.AMPECO_JWT_AUDIENCES = "https://widget-*.vercel.app";
+
+      await expect(
+        verifyJwt(await sign(oldKey, "1", "https://widget-a.evil.vercel.app"))
+      ).rejects.toMatchObject({
+        reason: "invalid_audience",
+        message: expect.stringContaining("https://widget-*.vercel.app"),
+      });
+      // The configuration wins over the expected audience
+      await expect(
+        verifyJwt(await sign(oldKey), "http://localhost:3000")
+      ).rejects.toMatchObject({ reason: "invalid_audience" });
+    });
+
+    it("should fall back to the expected audience without bypassing localhost", async () => {
+      delete process.env.AMPECO_JWT_AUDIENCES;
+
+      await expect(
+        verifyJwt(await sign(oldKey), "http://localhost:3000")
+      ).resolves.toBeDefined();
+      await expect(
+        verifyJwt(
+          await sign(oldKey, "1", "https://widget.example.com"),
+          "http://localhost:3000"
+        )
+      ).rejects.toMatchObject({ reason: "invalid_audience" });
+      await expect(verifyJwt(await sign(oldKey))).rejects.toMatchObject({
+        reason: "invalid_audience",
+        message: expect.stringContaining("AMPECO_JWT_AUDIENCES"),
+      });
+    });
+
+    it("should only skip the check behind the dev flag", async () => {
+      const token = await sign(oldKey, "1", "https://widget.example.com");
+      process.env.DEV_ALLOW_ANY_AUDIENCE = "1";
+
+      await expect(verifyJwt(token)).resolves.toBeDefined();
+
+      process.env = { ...process.env, NODE_ENV: "production" };
+      await expect(verifyJwt(token)).rejects.toMatchObject({
+        reason: "invalid_audience",
+      });
+    });
+  });
+
+  describe("safeguards", () => {
+    const now = () => Math.floor(Date.now() / 1000);
+
+    /**
+     * Signs a token with the old key and the given time claims
+     */
+    function signAt(claims: { iat?: number; nbf?: number; exp?: number }) {
+      const jwt = new SignJWT({
+        user_id: 1,
+        app_id: 2,
+        widget_id: 3,
+        widget_name: "dashboard",
+        impersonate: true,
+        resource: "dashboard",
+      })
+        .setProtectedHeader({ alg: "ES256", kid: oldKey.kid })
+        .setIssuer(`https://${tenant}`)
+        .setAudience("http://localhost:3000")
+        .setExpirationTime(claims.exp ?? now() + 3600);
+      if (claims.iat !== undefined) {
+        jwt.setIssuedAt(claims.iat);
+      }
+      if (claims.nbf !== undefined) {
+        jwt.setNotBefore(claims.nbf);
+      }
+      return jwt.sign(oldKey.privateKey);
+    }
+
+    afterEach(() => {
+      setJwtDenylist(null);
+    });
+
+    it("should reject tokens older than the maximum age", async () => {
+      const token = await signAt({ iat: now() - 600 });
+
+      await expect(verifyJwt(token)).resolves.toBeDefined();
+
+      process.env.AMPECO_JWT_MAX_AGE_SECONDS = "300";
+      await expect(verifyJwt(token)).rejects.toMatchObject({
+        reason: "too_old",
+      });
+      await expect(verifyJwt(await signAt({}))).rejects.toMatchObject({
+        reason: "invalid_claims",
+      });
+      await expect(
+        verifyJwt(await signAt({ iat: now() - 60 }))
+      ).resolves.toBeDefined();
+    });
+
+    it("should reject tokens that are not valid yet", async () => {
+      await expect(
+        verifyJwt(await signAt({ nbf: now() + 600 }))
+      ).rejects.toMatchObject({ reason: "not_yet_valid" });
+    });
+
+    it("should require nbf when configured", async () => {
+      process.env.AMPECO_JWT_REQUIRE_NBF = "1";
+
+      await expect(verifyJwt(await signAt({}))).rejects.toMatchObject({
+        reason: "invalid_claims",
+      });
+      await expect(
+        verifyJwt(await signAt({ nbf: now() - 10 }))
+      ).resolves.toBeDefined();
+    });
+
+    it("should reject revoked widgets and apps", async () => {
+      const token = await signAt({});
+
+      process.env.AMPECO_JWT_DENY_WIDGET_IDS = "5, 3";
+      await expect(verifyJwt(token)).rejects.toMatchObject({
+        reason: "revoked",
+      });
+
+      delete process.env.AMPECO_JWT_DENY_WIDGET_IDS;
+      process.env.AMPECO_JWT_DENY_APP_IDS = "2";
+      await expect(verifyJwt(token)).rejects.toMatchObject({
+        reason: "revoked",
+      });
+    });
+
+    it("should consult the denylist hook", async () => {
+      const hook = jest.fn(async () => true);
+      setJwtDenylist(hook);
+
+      await expect(verifyJwt(await signAt({}))).rejects.toMatchObject({
+        reason: "revoked",
+      });
+      expect(hook).toHaveBeenCalledWith(
+        expect.objectContaining({ widget_id: 3, app_id: 2 })
+      );
+    });
+  });
+});
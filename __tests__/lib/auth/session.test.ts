@@ -0,0 +1,92 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the encrypted session cookie
+ */
+
+import { NextResponse } from "next/server";
+import {
+  SESSION_COOKIE_NAME,
+  clearSessionCookie,
+  isSessionEnabled,
+  openSession,
+  sealSession,
+  setSessionCookie,
+} from "@/lib/auth/session";
+
+describe("session", () => {
+  const originalEnv = process.env;
+  const secret = "a-session-secret-of-at-least-32-chars";
+  const inOneHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, SESSION_SECRET: secret };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("should round-trip the JWT", async () => {
+    const sealed = await sealSession("header.payload.signature", inOneHour());
+
+    expect(sealed).not.toContain("header.payload.signature");
+    expect(await openSession(sealed)).toBe("header.payload.signature");
+  });
+
+  it("should reject cookies sealed with another secret", async () => {
+    const sealed = await sealSession("jwt", inOneHour());
+    process.env.SESSION_SECRET = "another-session-secret-of-32-chars!!";
+
+    expect(await openSession(sealed)).toBeNull();
+  });
+
+  it("should reject expired and malformed cookies", async () => {
+    const sealed = await sealSession("jwt", Math.floor(Date.now() / 1000) - 60);
+
+    expect(await openSession(sealed)).toBeNull();
+    expect(await openSession("not-a-session")).toBeNull();
+  });
+
+  it("should be disabled without SESSION_SECRET", async () => {
+    delete process.env.SESSION_SECRET;
+
+    expect(isSessionEnabled()).toBe(false);
+    expect(await openSession("anything")).toBeNull();
+    await expect(sealSession("jwt", inOneHour())).rejects.toThrow(
+      "SESSION_SECRET is unset"
+    );
+  });
+
+  it("should refuse a short secret", async () => {
+    process.env.SESSION_SECRET = "too-short";
+
+    await expect(sealSession("jwt", inOneHour())).rejects.toThrow(
+      "SESSION_SECRET must be at least 32 characters"
+    );
+  });
+
+  it("should set a partitioned httpOnly cookie that expires with the JWT", async () => {
+    const response = NextResponse.next();
+    await setSessionCookie(response, "jwt", inOneHour());
+
+    const cookie = response.headers.get("set-cookie")!;
+    expect(cookie).toContain(`${SESSION_COOKIE_NAME}=`);
+    expect(cookie).toMatch(/HttpOnly/i);
+    expect(cookie).toMatch(/Secure/i);
+    expect(cookie).toMatch(/SameSite=none/i);
+    expect(cookie).toMatch(/Partitioned/i);
+    expect(cookie).toMatch(/Max-Age=(3600|3599)/);
+  });
+
+  it("should clear the cookie", () => {
+    const response = NextResponse.next();
+    clearSessionCookie(response);
+
+    expect(response.headers.get("set-cookie")).toMatch(
+      new RegExp(`${SESSION_COOKIE_NAME}=;.*Max-Age=0`)
+    );
+  });
+});
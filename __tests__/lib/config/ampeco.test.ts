@@ -49,6 +49,36 @@ describe("Ampeco Config", () => {
 
       expect(() => getAmpecoConfig()).toThrow("Missing required environment variables");
     });
+
+    it("should fall back to mock defaults in mock mode", () => {
+      process.env.AMPECO_MOCK = "1";
+      delete process.env.AMPECO_BASE_DOMAIN;
+      delete process.env.AMPECO_API_TOKEN;
+
+      const config = getAmpecoConfig();
+
+      expect(config.mock.enabled).toBe(true);
+      expect(config.urls.tenant).toBe("https://mock.ampeco.local");
+      expect(config.apiToken).toBe("mock_api_token");
+    });
+
+    it("should refuse mock mode in production", () => {
+      process.env = { ...process.env, AMPECO_MOCK: "true", NODE_ENV: "production" };
+
+      expect(() => getAmpecoConfig()).toThrow("AMPECO_MOCK must not be enabled in production");
+    });
+
+    it("should require SESSION_SECRET for replay protection", () => {
+      process.env.AMPECO_JWT_REPLAY_PROTECTION = "1";
+      delete process.env.SESSION_SECRET;
+
+      expect(() => getAmpecoConfig()).toThrow(
+        "AMPECO_JWT_REPLAY_PROTECTION requires SESSION_SECRET"
+      );
+
+      process.env.SESSION_SECRET = "a-session-secret-of-at-least-32-chars";
+      expect(getAmpecoConfig().jwt.replayProtection).toBe(true);
+    });
   });
 
   describe("getAmpecoBaseDomain", () => {
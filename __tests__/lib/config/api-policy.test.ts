@@ -0,0 +1,144 @@
+/**
+ * Tests for API proxy policy
+ */
+
+import { evaluateApiPolicy, type ApiPolicyRule } from "@/lib/config/api-policy";
+
+describe("API Policy", () => {
+  const policy: ApiPolicyRule[] = [
+    {
+      pattern: "charge-points/{version}/**",
+      methods: ["GET"],
+      versions: ["v1.0"],
+    },
+    {
+      pattern: "charge-points/{version}/*",
+      methods: ["PATCH"],
+      versions: ["v1.0"],
+    },
+    {
+      pattern: "sessions/{version}",
+      methods: ["GET"],
+      versions: ["v1.0"],
+      widgets: { ids: [42], names: ["Sessions KPI"] },
+    },
+  ];
+
+  describe("evaluateApiPolicy", () => {
+    it("should allow listed endpoints and methods", () => {
+      expect(
+        evaluateApiPolicy(
+          { method: "GET", endpoint: "charge-points/v1.0" },
+          policy
+        ).allowed
+      ).toBe(true);
+      expect(
+        evaluateApiPolicy(
+          { method: "GET", endpoint: "charge-points/v1.0/123/evses" },
+          policy
+        ).allowed
+      ).toBe(true);
+      expect(
+        evaluateApiPolicy(
+          { method: "PATCH", endpoint: "charge-points/v1.0/123" },
+          policy
+        ).allowed
+      ).toBe(true);
+    });
+
+    it("should reject methods that are not listed", () => {
+      const decision = evaluateApiPolicy(
+        { method: "DELETE", endpoint: "charge-points/v1.0/123" },
+        policy
+      );
+      expect(decision).toEqual({
+        allowed: false,
+        reason: 'Method DELETE is not allowed for "charge-points/v1.0/123"',
+      });
+    });
+
+    it("should require single-segment wildcards to match exactly one segment", () => {
+      expect(
+        evaluateApiPolicy(
+          { method: "PATCH", endpoint: "charge-points/v1.0" },
+          policy
+        ).allowed
+      ).toBe(false);
+    });
+
+    it("should reject unknown versions and resources", () => {
+      expect(
+        evaluateApiPolicy(
+          { method: "GET", endpoint: "charge-points/v2.0" },
+          policy
+        ).allowed
+      ).toBe(false);
+      expect(
+        evaluateApiPolicy({ method: "GET", endpoint: "users/v1.0" }, policy)
+          .allowed
+      ).toBe(false);
+    });
+
+    it("should reject traversal segments", () => {
+      expect(
+        evaluateApiPolicy(
+          { method: "GET", endpoint: "charge-points/v1.0/../../users" },
+          policy
+        ).allowed
+      ).toBe(false);
+    });
+
+    it("should reject encoded traversal and separators", () => {
+      [
+        // `%252e%252e` in the URL, decoded once by Next.js
+        "charge-points/v1.0/%2e%2e/%2e%2e/users/v1.0",
+        "charge-points/v1.0/%2E%2E/users",
+        "charge-points/v1.0/.%2e/users",
+        "charge-points/v1.0/a%2fb",
+        "charge-points/v1.0/a%5Cb",
+        "charge-points/v1.0/..\\..\\users",
+        "charge-points/v1.0/%",
+      ].forEach((endpoint) => {
+        expect(
+          evaluateApiPolicy({ method: "GET", endpoint }, policy)
+        ).toMatchObject({ allowed: false });
+      });
+    });
+
+    it("should scope rules to widgets", () => {
+      expect(
+        evaluateApiPolicy(
+          { method: "GET", endpoint: "sessions/v1.0", widgetId: 42 },
+          policy
+        ).allowed
+      ).toBe(true);
+      expect(
+        evaluateApiPolicy(
+          {
+            method: "GET",
+            endpoint: "sessions/v1.0",
+            widgetId: 7,
+            widgetName: "Sessions KPI",
+          },
+          policy
+        ).allowed
+      ).toBe(true);
+      expect(
+        evaluateApiPolicy(
+          { method: "GET", endpoint: "sessions/v1.0", widgetId: 7 },
+          policy
+        ).allowed
+      ).toBe(false);
+    });
+
+    it("should use the default policy when none is given", () => {
+      expect(
+        evaluateApiPolicy({ method: "GET", endpoint: "evses/v2.1" }).allowed
+      ).toBe(true);
+      expect(
+        evaluateApiPolicy({ method: "DELETE", endpoint: "evses/v2.1/1" })
+          .allowed
+      ).toBe(false);
+    });
+  });
+});
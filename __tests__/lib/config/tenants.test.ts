@@ -0,0 +1,130 @@
+/**
+ * Tests for the tenant registry
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { findTenant, getAmpecoConfig, getTenants } from "@/lib/config/ampeco";
+import { parseTenantRegistry } from "@/lib/config/tenants";
+import { redact } from "@/lib/utils/logger";
+
+describe("Tenant registry", () => {
+  const originalEnv = process.env;
+  const registry = {
+    "tenant-a.charge.ampeco.tech": { apiToken: "sk_a" },
+    "https://Tenant-B.charge.ampeco.tech/": {
+      apiToken: "sk_b",
+      timeoutMs: 5000,
+      maxRetries: 0,
+    },
+  };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, AMPECO_TENANTS: JSON.stringify(registry) };
+    delete process.env.AMPECO_BASE_DOMAIN;
+    delete process.env.AMPECO_API_TOKEN;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe("parseTenantRegistry", () => {
+    it("should normalize domains and validate settings", () => {
+      expect(parseTenantRegistry(registry, "test")).toEqual([
+        {
+          domain: "tenant-a.charge.ampeco.tech",
+          apiToken: "sk_a",
+          timeoutMs: undefined,
+          maxRetries: undefined,
+        },
+        {
+          domain: "tenant-b.charge.ampeco.tech",
+          apiToken: "sk_b",
+          timeoutMs: 5000,
+          maxRetries: 0,
+        },
+      ]);
+      expect(() =>
+        parseTenantRegistry({ "a.ampeco.tech": {} }, "test")
+      ).toThrow('test: missing apiToken for tenant "a.ampeco.tech"');
+      expect(() => parseTenantRegistry([], "test")).toThrow(
+        "test must map tenant domains to settings"
+      );
+    });
+  });
+
+  describe("getAmpecoConfig", () => {
+    it("should resolve each tenant's token, URLs and settings", () => {
+      const tenantB = getAmpecoConfig("https://tenant-b.charge.ampeco.tech");
+
+      expect(tenantB.apiToken).toBe("sk_b");
+      expect(tenantB.urls.publicKey).toBe(
+        "https://tenant-b.charge.ampeco.tech/api/v1/marketplace/public-key"
+      );
+      expect(tenantB.api).toMatchObject({ timeoutMs: 5000, maxRetries: 0 });
+      expect(getAmpecoConfig().baseDomain).toBe("tenant-a.charge.ampeco.tech");
+    });
+
+    it("should throw for tenants that are not configured", () => {
+      expect(() => getAmpecoConfig("https://evil.example")).toThrow(
+        "Unknown AMPECO tenant: https://evil.example"
+      );
+      expect(findTenant("https://evil.example")).toBeNull();
+    });
+
+    it("should make AMPECO_BASE_DOMAIN the default tenant", () => {
+      process.env.AMPECO_BASE_DOMAIN = "tenant-c.charge.ampeco.tech";
+      process.env.AMPECO_API_TOKEN = "sk_c";
+
+      expect(getTenants().map((tenant) => tenant.domain)).toEqual([
+        "tenant-c.charge.ampeco.tech",
+        "tenant-a.charge.ampeco.tech",
+        "tenant-b.charge.ampeco.tech",
+      ]);
+
+      process.env.AMPECO_BASE_DOMAIN = "tenant-b.charge.ampeco.tech";
+      expect(getAmpecoConfig().apiToken).toBe("sk_b");
+    });
+
+    it("should load the registry from AMPECO_TENANTS_FILE", () => {
+      const file = path.join(os.tmpdir(), `tenants-${process.pid}.json`);
+      fs.writeFileSync(
+        file,
+        JSON.stringify({ "file.charge.ampeco.tech": { apiToken: "sk_f" } })
+      );
+      delete process.env.AMPECO_TENANTS;
+      process.env.AMPECO_TENANTS_FILE = file;
+
+      try {
+        expect(getAmpecoConfig().urls.tenant).toBe(
+          "https://file.charge.ampeco.tech"
+        );
+      } finally {
+        fs.unlinkSync(file);
+      }
+    });
+
+    it("should redact the tenant tokens from logs", () => {
+      process.env.AMPECO_TENANTS = JSON.stringify({
+        "tenant-c.charge.ampeco.tech": { apiToken: "sk_tenant_c_0123" },
+      });
+      getTenants();
+
+      expect(redact("Upstream rejected sk_tenant_c_0123")).toBe(
+        "Upstream rejected [REDACTED]"
+      );
+    });
+
+    it("should report an invalid registry without quoting it", () => {
+      process.env.AMPECO_TENANTS =
+        '{"a.charge.ampeco.tech": {"apiToken": "secret-token"';
+
+      expect(() => getAmpecoConfig()).toThrow(
+        "Failed to load AMPECO_TENANTS: invalid JSON"
+      );
+      expect(() => getAmpecoConfig()).not.toThrow(/secret-token/);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for the impersonation support of the mutation hooks
+ */
+
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import type { ReactNode } from "react";
+import type { WidgetContext } from "@/lib/auth/get-jwt-context";
+import { usePatch } from "@/lib/hooks/use-api";
+import { IMPERSONATION_CONFIRM_HEADER } from "@/lib/services/api-headers";
+import { WidgetContextProvider } from "@/lib/providers/widget-context-provider";
+
+describe("Mutation hooks while impersonating", () => {
+  const context: WidgetContext = {
+    userId: 7,
+    appId: 1,
+    widgetId: 3,
+    widgetName: "test",
+    impersonate: true,
+    tenantUrl: "https://demo.charge.ampeco.tech",
+    resource: "dashboard",
+    resourceId: null,
+  };
+  let fetchMock: jest.Mock;
+
+  /**
+   * Wraps hooks in the query client and widget context providers
+   */
+  function createWrapper(value: WidgetContext | null) {
+    const queryClient = new QueryClient({
+      defaultOptions: { mutations: { retry: false } },
+    });
+    return function Wrapper({ children }: { children: ReactNode }) {
+      return (
+        <WidgetContextProvider value={value}>
+          <QueryClientProvider client={queryClient}>
+            {children}
+          </QueryClientProvider>
+        </WidgetContextProvider>
+      );
+    };
+  }
+
+  beforeEach(() => {
+    fetchMock = jest.fn(async () => ({
+      ok: true,
+      status: 200,
+      json: async () => ({ data: {} }),
+    }));
+    global.fetch = fetchMock;
+  });
+
+  it("should report isImpersonating", () => {
+    const { result: impersonated } = renderHook(
+      () => usePatch("/api/charge-points/v1.0"),
+      { wrapper: createWrapper(context) }
+    );
+    const { result: own } = renderHook(
+      () => usePatch("/api/charge-points/v1.0"),
+      { wrapper: createWrapper({ ...context, impersonate: false }) }
+    );
+
+    expect(impersonated.current.isImpersonating).toBe(true);
+    expect(own.current.isImpersonating).toBe(false);
+  });
+
+  it("should send the confirmation once the user confirmed", async () => {
+    const confirmImpersonation = jest.fn(() => true);
+    const { result } = renderHook(
+      () => usePatch("/api/charge-points/v1.0", { confirmImpersonation }),
+      { wrapper: createWrapper(context) }
+    );
+
+    act(() => {
+      result.current.mutate({ id: "12", data: { name: "Renamed" } });
+    });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(confirmImpersonation).toHaveBeenCalled();
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.headers).toMatchObject({
+      [IMPERSONATION_CONFIRM_HEADER]: "true",
+    });
+  });
+
+  it("should cancel the mutation when the user declines", async () => {
+    const { result } = renderHook(
+      () =>
+        usePatch("/api/charge-points/v1.0", {
+          confirmImpersonation: async () => false,
+        }),
+      { wrapper: createWrapper(context) }
+    );
+
+    act(() => {
+      result.current.mutate({ id: "12", data: { name: "Renamed" } });
+    });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    expect(result.current.error?.code).toBe("request_cancelled");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
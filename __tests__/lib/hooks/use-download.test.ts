@@ -0,0 +1,34 @@
+/**
+ * Tests for binary download helpers
+ */
+
+import { getFilenameFromDisposition } from "@/lib/hooks/use-download";
+
+describe("Download Helpers", () => {
+  describe("getFilenameFromDisposition", () => {
+    it("should read quoted filenames", () => {
+      expect(
+        getFilenameFromDisposition('attachment; filename="sessions.csv"')
+      ).toBe("sessions.csv");
+    });
+
+    it("should read unquoted filenames", () => {
+      expect(
+        getFilenameFromDisposition("attachment; filename=invoice-42.pdf")
+      ).toBe("invoice-42.pdf");
+    });
+
+    it("should prefer RFC 5987 encoded filenames", () => {
+      expect(
+        getFilenameFromDisposition(
+          "attachment; filename=\"fallback.pdf\"; filename*=UTF-8''fa%C3%A7ture.pdf"
+        )
+      ).toBe("façture.pdf");
+    });
+
+    it("should return null without a filename", () => {
+      expect(getFilenameFromDisposition("inline")).toBeNull();
+      expect(getFilenameFromDisposition(null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the CSRF check of mutating API requests
+ */
+
+import { NextRequest } from "next/server";
+import type { AmpecoJwtPayload } from "@/lib/auth/jwt-verifier";
+import {
+  CSRF_COOKIE_NAME,
+  checkCsrf,
+  createCsrfToken,
+  isMutatingMethod,
+  verifyCsrfToken,
+} from "@/lib/middleware/csrf";
+
+describe("CSRF", () => {
+  const originalEnv = process.env;
+  const origin = "https://widget.example.com";
+  const payload = {
+    iss: "https://demo.charge.ampeco.tech",
+    aud: origin,
+    user_id: 7,
+    app_id: 1,
+    widget_id: 3,
+    widget_name: "test",
+    impersonate: false,
+    resource: "dashboard",
+  } as AmpecoJwtPayload;
+
+  /**
+   * Builds a POST to the proxy with the given headers and CSRF cookie
+   */
+  function buildRequest(headers: Record<string, string>, cookie?: string) {
+    const request = new NextRequest(`${origin}/api/charge-points/v1.0`, {
+      method: "POST",
+      headers,
+    });
+    if (cookie) {
+      request.cookies.set(CSRF_COOKIE_NAME, cookie);
+    }
+    return request;
+  }
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      CSRF_SECRET: "a-csrf-secret-of-at-least-32-characters",
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("should only protect mutating methods", () => {
+    expect(isMutatingMethod("POST")).toBe(true);
+    expect(isMutatingMethod("delete")).toBe(true);
+    expect(isMutatingMethod("GET")).toBe(false);
+    expect(isMutatingMethod("HEAD")).toBe(false);
+  });
+
+  it("should bind tokens to the JWT identity", () => {
+    const token = createCsrfToken(payload);
+
+    expect(verifyCsrfToken(token, payload)).toBe(true);
+    expect(verifyCsrfToken(token, { ...payload, user_id: 8 })).toBe(false);
+    expect(verifyCsrfToken(`${token}x`, payload)).toBe(false);
+    expect(verifyCsrfToken("garbage", payload)).toBe(false);
+  });
+
+  it("should require CSRF_SECRET", () => {
+    delete process.env.CSRF_SECRET;
+
+    expect(() => createCsrfToken(payload)).toThrow("CSRF_SECRET");
+  });
+
+  it("should accept a session request with a matching token", () => {
+    const token = createCsrfToken(payload);
+
+    expect(
+      checkCsrf(
+        buildRequest({ origin, "x-csrf-token": token }, token),
+        payload,
+        true
+      )
+    ).toBeNull();
+  });
+
+  it("should reject session requests without a valid token", () => {
+    const token = createCsrfToken(payload);
+    const other = createCsrfToken(payload);
+
+    expect(checkCsrf(buildRequest({ origin }, token), payload, true)).toBe(
+      "missing_token"
+    );
+    expect(
+      checkCsrf(
+        buildRequest({ origin, "x-csrf-token": other }, token),
+        payload,
+        true
+      )
+    ).toBe("invalid_token");
+  });
+
+  it("should reject foreign origins", () => {
+    expect(
+      checkCsrf(
+        buildRequest({ origin: "https://evil.example.com" }),
+        payload,
+        false
+      )
+    ).toBe("origin_mismatch");
+    expect(
+      checkCsrf(
+        buildRequest({ referer: "https://evil.example.com/page" }),
+        payload,
+        false
+      )
+    ).toBe("origin_mismatch");
+  });
+
+  it("should accept the AMPECO tenant as origin", () => {
+    expect(
+      checkCsrf(buildRequest({ origin: payload.iss }), payload, false)
+    ).toBeNull();
+  });
+
+  it("should require an origin only for session requests", () => {
+    const token = createCsrfToken(payload);
+
+    expect(checkCsrf(buildRequest({}), payload, false)).toBeNull();
+    expect(
+      checkCsrf(buildRequest({ "x-csrf-token": token }, token), payload, true)
+    ).toBe("missing_origin");
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Tests for the sliding-window rate limiter
+ */
+
+import {
+  RateLimiter,
+  MemoryRateLimitStore,
+  createRedisRateLimitStore,
+  UNKNOWN_IP,
+  getClientIp,
+  getTrustedProxyHops,
+  getRateLimitHeaders,
+  type RedisLikeClient,
+} from "@/lib/middleware/rate-limit";
+
+describe("Rate Limiter", () => {
+  const identity = { ip: "203.0.113.7", userId: 1, appId: 2 };
+  const config = {
+    windowMs: 60_000,
+    maxRequests: 3,
+    rules: [
+      { pattern: "/api/batch", windowMs: 60_000, maxRequests: 1 },
+      { pattern: "/api/sessions/*/**", windowMs: 10_000, maxRequests: 5 },
+    ],
+  };
+
+  async function hit(limiter: RateLimiter, times: number, now: number) {
+    let result;
+    for (let i = 0; i < times; i++) {
+      result = await limiter.check("/api/charge-points/v1.0", identity, now);
+    }
+    return result!;
+  }
+
+  describe("RateLimiter", () => {
+    it("should allow requests up to the limit and reject the next", async () => {
+      const limiter = new RateLimiter(config, new MemoryRateLimitStore());
+
+      const last = await hit(limiter, 3, 1_000);
+      expect(last).toMatchObject({ allowed: true, limit: 3, remaining: 0 });
+
+      const rejected = await hit(limiter, 1, 1_000);
+      expect(rejected.allowed).toBe(false);
+      expect(rejected.retryAfterMs).toBeGreaterThan(0);
+    });
+
+    it("should weigh the previous window by its overlap", async () => {
+      const limiter = new RateLimiter(config, new MemoryRateLimitStore());
+      await hit(limiter, 3, 59_000);
+
+      // 10% into the next window: 3 * 0.9 + 1 > 3
+      expect((await hit(limiter, 1, 66_000)).allowed).toBe(false);
+
+      // 90% into it: 3 * 0.1 + 2 <= 3
+      expect((await hit(limiter, 1, 114_000)).allowed).toBe(true);
+    });
+
+    it("should report when a rejected client may retry", async () => {
+      // Every check counts, so probe "too early" and "on time" separately
+      const [early, onTime] = await Promise.all(
+        [0, 1].map(async () => {
+          const limiter = new RateLimiter(config, new MemoryRateLimitStore());
+          await hit(limiter, 3, 0);
+          const { retryAfterMs } = await hit(limiter, 1, 0);
+          return { limiter, retryAfterMs };
+        })
+      );
+
+      expect(early.retryAfterMs).toBe(90_000);
+      expect((await hit(early.limiter, 1, 89_000)).allowed).toBe(false);
+      expect((await hit(onTime.limiter, 1, 90_000)).allowed).toBe(true);
+    });
+
+    it("should keep separate counters per identity", async () => {
+      const limiter = new RateLimiter(config, new MemoryRateLimitStore());
+      await hit(limiter, 4, 1_000);
+
+      const other = await limiter.check(
+        "/api/charge-points/v1.0",
+        { ip: "198.51.100.1", userId: 99, appId: 2 },
+        1_000
+      );
+
+      expect(other).toMatchObject({ allowed: true, remaining: 2 });
+    });
+
+    it("should reject when either the user or the IP is over the limit", async () => {
+      const limiter = new RateLimiter(config, new MemoryRateLimitStore());
+      await hit(limiter, 3, 1_000);
+
+      const sameUserOtherIp = await limiter.check(
+        "/api/charge-points/v1.0",
+        { ...identity, ip: "198.51.100.1" },
+        1_000
+      );
+      const sameIpOtherUser = await limiter.check(
+        "/api/charge-points/v1.0",
+        { ...identity, userId: 99 },
+        1_000
+      );
+
+      expect(sameUserOtherIp.allowed).toBe(false);
+      expect(sameIpOtherUser.allowed).toBe(false);
+    });
+
+    it("should not share the unknown IP bucket between users", async () => {
+      const limiter = new RateLimiter(config, new MemoryRateLimitStore());
+      for (let userId = 1; userId <= 5; userId++) {
+        const result = await limiter.check(
+          "/api/charge-points/v1.0",
+          { ip: UNKNOWN_IP, userId, appId: 2 },
+          1_000
+        );
+        expect(result.allowed).toBe(true);
+      }
+    });
+
+    it("should apply the first matching endpoint rule", async () => {
+      const limiter = new RateLimiter(config, new MemoryRateLimitStore());
+
+      expect(limiter.resolveRule("/api/batch").maxRequests).toBe(1);
+      expect(limiter.resolveRule("/api/sessions/v1.0/42").maxRequests).toBe(5);
+      expect(limiter.resolveRule("/api/sessions").maxRequests).toBe(3);
+
+      await limiter.check("/api/batch", identity, 1_000);
+      const batch = await limiter.check("/api/batch", identity, 1_000);
+      const other = await limiter.check("/api/evses/v2.1", identity, 1_000);
+
+      expect(batch.allowed).toBe(false);
+      expect(other.allowed).toBe(true);
+    });
+  });
+
+  describe("createRedisRateLimitStore", () => {
+    it("should use INCR and set the expiry on the first hit", async () => {
+      const values = new Map<string, number>();
+      const client: RedisLikeClient = {
+        incr: jest.fn(async (key: string) => {
+          values.set(key, (values.get(key) ?? 0) + 1);
+          return values.get(key)!;
+        }),
+        pexpire: jest.fn(async () => 1),
+        get: jest.fn(async (key: string) =>
+          values.has(key) ? String(values.get(key)) : null
+        ),
+      };
+      const store = createRedisRateLimitStore(client);
+
+      expect(await store.increment("a", 1000)).toBe(1);
+      expect(await store.increment("a", 1000)).toBe(2);
+      expect(await store.get("a")).toBe(2);
+      expect(await store.get("b")).toBe(0);
+      expect(client.pexpire).toHaveBeenCalledTimes(1);
+      expect(client.pexpire).toHaveBeenCalledWith("ratelimit:a", 1000);
+    });
+  });
+
+  describe("getClientIp", () => {
+    const originalEnv = process.env;
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it("should ignore forwarded headers without a trusted proxy", () => {
+      const headers = new Headers({
+        "x-forwarded-for": "203.0.113.7",
+        "x-real-ip": "10.0.0.2",
+      });
+      expect(getClientIp(headers)).toBe(UNKNOWN_IP);
+    });
+
+    it("should take the address appended by the outermost trusted proxy", () => {
+      // The client sent a forged first entry
+      const headers = new Headers({
+        "x-forwarded-for": "1.2.3.4, 203.0.113.7, 10.0.0.1",
+      });
+      expect(getClientIp(headers, 1)).toBe("10.0.0.1");
+      expect(getClientIp(headers, 2)).toBe("203.0.113.7");
+      expect(getClientIp(headers, 5)).toBe("1.2.3.4");
+    });
+
+    it("should read the hops from RATE_LIMIT_TRUSTED_PROXY_HOPS", () => {
+      process.env = { ...originalEnv, RATE_LIMIT_TRUSTED_PROXY_HOPS: "1" };
+      expect(
+        getClientIp(new Headers({ "x-forwarded-for": "1.2.3.4, 10.0.0.1" }))
+      ).toBe("10.0.0.1");
+    });
+
+    it("should trust the Vercel edge by default", () => {
+      process.env = { ...originalEnv, VERCEL: "1" };
+      delete process.env.RATE_LIMIT_TRUSTED_PROXY_HOPS;
+      expect(getTrustedProxyHops()).toBe(1);
+
+      process.env.RATE_LIMIT_TRUSTED_PROXY_HOPS = "0";
+      expect(getTrustedProxyHops()).toBe(0);
+    });
+
+    it("should fall back to X-Real-IP behind a trusted proxy", () => {
+      expect(getClientIp(new Headers({ "x-real-ip": "10.0.0.2" }), 1)).toBe(
+        "10.0.0.2"
+      );
+      expect(getClientIp(new Headers(), 1)).toBe(UNKNOWN_IP);
+    });
+  });
+
+  describe("getRateLimitHeaders", () => {
+    it("should add Retry-After only when rejected", () => {
+      const result = {
+        allowed: true,
+        rule: "default",
+        limit: 100,
+        remaining: 42,
+        windowMs: 900_000,
+        resetMs: 1_500,
+        retryAfterMs: 0,
+      };
+
+      expect(getRateLimitHeaders(result)).toEqual({
+        "RateLimit-Limit": "100",
+        "RateLimit-Remaining": "42",
+        "RateLimit-Reset": "2",
+        "RateLimit-Policy": "100;w=900",
+      });
+      expect(
+        getRateLimitHeaders({ ...result, allowed: false, retryAfterMs: 30_500 })
+      ).toMatchObject({ "Retry-After": "31" });
+    });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Tests for the route protection table and reserved header stripping
+ */
+
+import {
+  getRouteAccess,
+  stripReservedHeaders,
+} from "@/lib/middleware/route-protection";
+
+describe("Route Protection", () => {
+  describe("getRouteAccess", () => {
+    it("should treat health, readiness and metrics as public", () => {
+      expect(getRouteAccess("/api/health")).toBe("public");
+      expect(getRouteAccess("/api/ready")).toBe("public");
+      expect(getRouteAccess("/api/metrics")).toBe("public");
+    });
+
+    it("should mark the development issuer as dev-only", () => {
+      expect(getRouteAccess("/api/dev/token")).toBe("dev");
+      expect(getRouteAccess("/api/dev/jwks")).toBe("dev");
+    });
+
+    it("should require a JWT for everything else", () => {
+      expect(getRouteAccess("/")).toBe("authenticated");
+      expect(getRouteAccess("/api/batch")).toBe("authenticated");
+      expect(getRouteAccess("/api/charge-points/v1.0/12")).toBe(
+        "authenticated"
+      );
+      expect(getRouteAccess("/api/health/extra")).toBe("authenticated");
+      expect(getRouteAccess("/api/developer")).toBe("authenticated");
+    });
+  });
+
+  describe("stripReservedHeaders", () => {
+    it("should remove every x-ampeco-* header regardless of case", () => {
+      const stripped = stripReservedHeaders(
+        new Headers({
+          "X-Ampeco-User-Id": "1",
+          "x-ampeco-jwt-token": "forged",
+          "x-ampeco-anything-new": "1",
+          accept: "application/json",
+        })
+      );
+
+      expect(Array.from(stripped.keys())).toEqual(["accept"]);
+    });
+
+    it("should not modify the original headers", () => {
+      const headers = new Headers({ "x-ampeco-user-id": "1" });
+
+      stripReservedHeaders(headers);
+
+      expect(headers.get("x-ampeco-user-id")).toBe("1");
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for the client-side widget context
+ */
+
+import { renderHook } from "@testing-library/react";
+import type { ReactNode } from "react";
+import type { WidgetContext } from "@/lib/auth/get-jwt-context";
+import {
+  WidgetContextProvider,
+  useWidgetContext,
+} from "@/lib/providers/widget-context-provider";
+
+describe("useWidgetContext", () => {
+  const context: WidgetContext = {
+    userId: 7,
+    appId: 1,
+    widgetId: 3,
+    widgetName: "Charge point status",
+    impersonate: false,
+    tenantUrl: "https://demo.charge.ampeco.tech",
+    resource: "charge_point",
+    resourceId: "12",
+  };
+
+  /**
+   * Renders the hook inside a provider with the given value
+   */
+  function renderWithContext(value: WidgetContext | null) {
+    return renderHook(() => useWidgetContext(), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <WidgetContextProvider value={value}>{children}</WidgetContextProvider>
+      ),
+    });
+  }
+
+  it("should return the context from the provider", () => {
+    const { result } = renderWithContext(context);
+
+    expect(result.current).toEqual(context);
+  });
+
+  it("should return null without a verified JWT", () => {
+    const { result } = renderWithContext(null);
+
+    expect(result.current).toBeNull();
+  });
+
+  it("should throw outside the provider", () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(() => renderHook(() => useWidgetContext())).toThrow(
+      "useWidgetContext must be used within WidgetContextProvider"
+    );
+
+    jest.restoreAllMocks();
+  });
+});
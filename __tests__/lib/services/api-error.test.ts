@@ -0,0 +1,132 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for API error envelope helpers
+ */
+
+import {
+  ApiRequestError,
+  API_ERROR_CODES,
+  errorCodeForStatus,
+  parseApiErrorResponse,
+  toApiErrorEnvelope,
+} from "@/lib/services/api-error";
+
+describe("API Error", () => {
+  describe("ApiRequestError", () => {
+    it("should derive the code from the status", () => {
+      expect(new ApiRequestError("Missing", { status: 404 }).code).toBe(
+        API_ERROR_CODES.NOT_FOUND
+      );
+      expect(new ApiRequestError("Invalid", { status: 422 }).code).toBe(
+        API_ERROR_CODES.VALIDATION_FAILED
+      );
+    });
+
+    it("should treat errors without status as upstream unavailable", () => {
+      const error = new ApiRequestError("fetch failed");
+      expect(error.code).toBe(API_ERROR_CODES.UPSTREAM_UNAVAILABLE);
+      expect(error).toBeInstanceOf(Error);
+    });
+  });
+
+  describe("errorCodeForStatus", () => {
+    it("should map known statuses", () => {
+      expect(errorCodeForStatus(403)).toBe(API_ERROR_CODES.FORBIDDEN);
+      expect(errorCodeForStatus(429)).toBe(API_ERROR_CODES.RATE_LIMITED);
+      expect(errorCodeForStatus(500)).toBe(API_ERROR_CODES.UPSTREAM_ERROR);
+      expect(errorCodeForStatus(418)).toBe(API_ERROR_CODES.BAD_REQUEST);
+    });
+  });
+
+  describe("toApiErrorEnvelope", () => {
+    it("should preserve status, field errors and request id", () => {
+      const error = new ApiRequestError("The name field is required.", {
+        status: 422,
+        errors: { name: ["The name field is required."] },
+        requestId: "req-123",
+      });
+
+      expect(toApiErrorEnvelope(error, "Failed")).toEqual({
+        status: 422,
+        body: {
+          error: {
+            code: "validation_failed",
+            message: "The name field is required.",
+            status: 422,
+            errors: { name: ["The name field is required."] },
+            request_id: "req-123",
+          },
+        },
+      });
+    });
+
+    it("should use 502 for network failures", () => {
+      const { status, body } = toApiErrorEnvelope(
+        new ApiRequestError("fetch failed"),
+        "Failed"
+      );
+      expect(status).toBe(502);
+      expect(body.error.code).toBe(API_ERROR_CODES.UPSTREAM_UNAVAILABLE);
+    });
+
+    it("should use 500 for unexpected errors", () => {
+      const { status, body } = toApiErrorEnvelope("boom", "Failed to fetch");
+      expect(status).toBe(500);
+      expect(body.error).toEqual({
+        code: API_ERROR_CODES.INTERNAL_ERROR,
+        message: "Failed to fetch",
+        status: 500,
+      });
+    });
+  });
+
+  describe("parseApiErrorResponse", () => {
+    it("should read the proxy error envelope", async () => {
+      const response = Response.json(
+        {
+          error: {
+            code: "forbidden",
+            message: "Not allowed",
+            status: 403,
+            request_id: "abc",
+          },
+        },
+        { status: 403 }
+      );
+
+      const error = await parseApiErrorResponse(response, "Failed to fetch");
+
+      expect(error.status).toBe(403);
+      expect(error.code).toBe(API_ERROR_CODES.FORBIDDEN);
+      expect(error.message).toBe("Not allowed");
+      expect(error.requestId).toBe("abc");
+    });
+
+    it("should read raw AMPECO error bodies", async () => {
+      const response = Response.json(
+        { message: "Invalid data", errors: { status: ["Invalid"] } },
+        { status: 422 }
+      );
+
+      const error = await parseApiErrorResponse(response, "Failed to update");
+
+      expect(error.code).toBe(API_ERROR_CODES.VALIDATION_FAILED);
+      expect(error.errors).toEqual({ status: ["Invalid"] });
+    });
+
+    it("should handle non-JSON bodies", async () => {
+      const response = new Response("Not Found", {
+        status: 404,
+        statusText: "Not Found",
+      });
+
+      const error = await parseApiErrorResponse(response, "Failed to fetch");
+
+      expect(error.message).toBe("Failed to fetch: Not Found");
+      expect(error.code).toBe(API_ERROR_CODES.NOT_FOUND);
+    });
+  });
+});
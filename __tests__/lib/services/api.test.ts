@@ -0,0 +1,582 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for ApiService against a local stub server
+ */
+
+import http from "http";
+import type { AddressInfo } from "net";
+import { gzipSync } from "zlib";
+import { NextRequest } from "next/server";
+import { GET } from "@/app/api/[...path]/route";
+import { ApiService, getApiService } from "@/lib/services/api";
+import { ApiRequestError } from "@/lib/services/api-error";
+
+jest.mock("@/lib/auth/get-jwt-context", () => ({
+  getJwtContext: jest.fn(async () => ({
+    userId: 7,
+    appId: 1,
+    widgetId: 3,
+    widgetName: "Charge point status",
+    impersonate: false,
+    jwtToken: "jwt",
+    tenantUrl: "https://demo.charge.ampeco.tech",
+    resource: "charge_point",
+    resourceId: "12",
+  })),
+  getJwtToken: jest.fn(async () => "jwt"),
+  getRequestId: jest.fn(async () => undefined),
+}));
+
+jest.mock("@/lib/services/api", () => {
+  const actual = jest.requireActual("@/lib/services/api");
+  return { ...actual, getApiService: jest.fn(actual.getApiService) };
+});
+
+const mockGetApiService = getApiService as jest.MockedFunction<
+  typeof getApiService
+>;
+const { getApiService: actualGetApiService } =
+  jest.requireActual<typeof import("@/lib/services/api")>("@/lib/services/api");
+
+type StubHandler = (
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+) => void;
+
+describe("ApiService", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let handlers: StubHandler[];
+  let requests: http.IncomingMessage[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req);
+      const handler = handlers[Math.min(requests.length, handlers.length) - 1];
+      handler(req, res);
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    handlers = [];
+    requests = [];
+  });
+
+  function createService(maxRetries = 2, timeoutMs = 1000) {
+    return new ApiService({
+      apiToken: "sk_test",
+      apiBase: `${baseUrl}/public-api/resources`,
+      tenantUrl: baseUrl,
+      timeoutMs,
+      retry: {
+        maxRetries,
+        baseDelayMs: 1,
+        maxDelayMs: 5,
+        maxRetryAfterMs: 1000,
+      },
+    });
+  }
+
+  function json(status: number, body: unknown, headers = {}): StubHandler {
+    return (_req, res) => {
+      res.writeHead(status, { "Content-Type": "application/json", ...headers });
+      res.end(JSON.stringify(body));
+    };
+  }
+
+  it("should retry idempotent requests after 5xx responses", async () => {
+    handlers = [
+      json(502, { message: "Bad Gateway" }),
+      json(200, { data: [1] }),
+    ];
+
+    const result = await createService().request("charge-points/v1.0", {
+      jwtToken: "jwt",
+    });
+
+    expect(result).toEqual({ data: [1] });
+    expect(requests).toHaveLength(2);
+  });
+
+  it("should honor Retry-After on 429", async () => {
+    handlers = [
+      json(429, { message: "Too Many Requests" }, { "Retry-After": "0" }),
+      json(200, { data: [] }),
+    ];
+
+    await createService().request("sessions/v1.0", { jwtToken: "jwt" });
+
+    expect(requests).toHaveLength(2);
+  });
+
+  it("should not wait for Retry-After beyond the limit", async () => {
+    handlers = [json(429, { message: "Slow down" }, { "Retry-After": "120" })];
+
+    await expect(
+      createService().request("sessions/v1.0", { jwtToken: "jwt" })
+    ).rejects.toMatchObject({ status: 429, code: "rate_limited" });
+    expect(requests).toHaveLength(1);
+  });
+
+  it("should not retry non-idempotent methods", async () => {
+    handlers = [json(503, { message: "Unavailable" })];
+
+    await expect(
+      createService().request("charge-points/v1.0", {
+        method: "POST",
+        body: { name: "CP" },
+        jwtToken: "jwt",
+      })
+    ).rejects.toMatchObject({ status: 503 });
+    expect(requests).toHaveLength(1);
+  });
+
+  it("should give up after the configured retries", async () => {
+    handlers = [json(500, { message: "Server Error" })];
+
+    await expect(
+      createService(2).request("evses/v2.1", { jwtToken: "jwt" })
+    ).rejects.toBeInstanceOf(ApiRequestError);
+    expect(requests).toHaveLength(3);
+  });
+
+  it("should time out slow responses", async () => {
+    handlers = [
+      (_req, res) => {
+        setTimeout(() => json(200, { data: [] })(_req, res), 200);
+      },
+    ];
+
+    await expect(
+      createService(0, 50).request("evses/v2.1", { jwtToken: "jwt" })
+    ).rejects.toMatchObject({ status: 504 });
+  });
+
+  it("should send If-None-Match and report 304 as not modified", async () => {
+    handlers = [
+      (_req, res) => {
+        res.writeHead(304, { ETag: '"v1"' });
+        res.end();
+      },
+    ];
+
+    const result = await createService().requestConditional(
+      "charge-points/v1.0",
+      { jwtToken: "jwt" },
+      '"v1"'
+    );
+
+    expect(result).toEqual({ notModified: true, etag: '"v1"' });
+    expect(requests[0].headers["if-none-match"]).toBe('"v1"');
+  });
+
+  it("should forward the request id upstream", async () => {
+    handlers = [json(200, { data: [] })];
+
+    await createService().request("sessions/v1.0", {
+      jwtToken: "jwt",
+      requestId: "req-123",
+    });
+
+    expect(requests[0].headers["x-request-id"]).toBe("req-123");
+  });
+
+  it("should encode each endpoint segment", async () => {
+    handlers = [json(200, { data: [] })];
+
+    await createService().request("charge-points/v1.0/%2e%2e/CP 1", {
+      jwtToken: "jwt",
+    });
+
+    expect(requests[0].url).toBe(
+      "/public-api/resources/charge-points/v1.0/%252e%252e/CP%201"
+    );
+  });
+
+  describe("request coalescing", () => {
+    function delayed(body: unknown): StubHandler {
+      return (req, res) => setTimeout(() => json(200, body)(req, res), 20);
+    }
+
+    it("should share one upstream call for concurrent identical GETs", async () => {
+      handlers = [delayed({ data: [1] })];
+      const service = createService();
+
+      const results = await Promise.all([
+        service.request("charge-points/v1.0", {
+          params: { page: 1, per_page: 10 },
+          jwtToken: "jwt-a",
+          requestId: "req-1",
+        }),
+        service.request("charge-points/v1.0", {
+          params: { per_page: 10, page: 1 },
+          jwtToken: "jwt-a",
+          requestId: "req-2",
+        }),
+        service.request("charge-points/v1.0", {
+          params: { page: 1, per_page: 10 },
+          jwtToken: "jwt-a",
+        }),
+      ]);
+
+      expect(requests).toHaveLength(1);
+      expect(results).toEqual([{ data: [1] }, { data: [1] }, { data: [1] }]);
+    });
+
+    it("should never share results across JWT identities", async () => {
+      handlers = [delayed({ data: [] })];
+      const service = createService();
+
+      await Promise.all([
+        service.request("charge-points/v1.0", { jwtToken: "jwt-a" }),
+        service.request("charge-points/v1.0", { jwtToken: "jwt-b" }),
+      ]);
+
+      expect(requests).toHaveLength(2);
+      expect(requests.map((r) => r.headers.authorization)).toEqual([
+        "Bearer sk_test:jwt-a",
+        "Bearer sk_test:jwt-b",
+      ]);
+    });
+
+    it("should not coalesce sequential or mutating requests", async () => {
+      handlers = [json(200, { data: [] })];
+      const service = createService();
+
+      await service.request("sessions/v1.0", { jwtToken: "jwt" });
+      await service.request("sessions/v1.0", { jwtToken: "jwt" });
+      await Promise.all([
+        service.request("sessions/v1.0", { method: "DELETE", jwtToken: "jwt" }),
+        service.request("sessions/v1.0", { method: "DELETE", jwtToken: "jwt" }),
+      ]);
+
+      expect(requests).toHaveLength(4);
+    });
+  });
+
+  describe("cancellation", () => {
+    let closed: Promise<void>;
+
+    // Responds after 100ms, resolving `closed` if the client goes away first
+    function slow(body: unknown): StubHandler {
+      return (req, res) => {
+        closed = new Promise((resolve) => res.on("close", resolve));
+        setTimeout(() => {
+          if (!res.destroyed) {
+            json(200, body)(req, res);
+          }
+        }, 100);
+      };
+    }
+
+    it("should abort the upstream call and reject as cancelled", async () => {
+      handlers = [slow({ data: [] })];
+      const controller = new AbortController();
+
+      const promise = createService().request("sessions/v1.0", {
+        jwtToken: "jwt",
+        signal: controller.signal,
+      });
+      setTimeout(() => controller.abort(), 20);
+
+      await expect(promise).rejects.toMatchObject({
+        status: 499,
+        code: "request_cancelled",
+      });
+      await closed;
+      expect(requests).toHaveLength(1);
+    });
+
+    it("should not start a request whose signal is already aborted", async () => {
+      handlers = [json(200, { data: [] })];
+
+      await expect(
+        createService().request("sessions/v1.0", {
+          jwtToken: "jwt",
+          signal: AbortSignal.abort(),
+        })
+      ).rejects.toMatchObject({ code: "request_cancelled" });
+      expect(requests).toHaveLength(0);
+    });
+
+    it("should keep a coalesced GET alive while other callers wait", async () => {
+      handlers = [slow({ data: [1] })];
+      const service = createService();
+      const controller = new AbortController();
+
+      const aborted = service.request("charge-points/v1.0", {
+        jwtToken: "jwt",
+        signal: controller.signal,
+      });
+      const waiting = service.request("charge-points/v1.0", {
+        jwtToken: "jwt",
+        signal: new AbortController().signal,
+      });
+      setTimeout(() => controller.abort(), 20);
+
+      await expect(aborted).rejects.toMatchObject({
+        code: "request_cancelled",
+      });
+      await expect(waiting).resolves.toEqual({ data: [1] });
+      expect(requests).toHaveLength(1);
+    });
+
+    it("should abort a coalesced GET once every caller has aborted", async () => {
+      handlers = [slow({ data: [] })];
+      const service = createService();
+      const controllers = [new AbortController(), new AbortController()];
+
+      const promises = controllers.map((controller) =>
+        service.request("charge-points/v1.0", {
+          jwtToken: "jwt",
+          signal: controller.signal,
+        })
+      );
+      setTimeout(() => controllers.forEach((c) => c.abort()), 20);
+
+      for (const promise of promises) {
+        await expect(promise).rejects.toMatchObject({
+          code: "request_cancelled",
+        });
+      }
+      await closed;
+    });
+
+    it("should start a fresh GET right after the last caller aborted", async () => {
+      handlers = [slow({ data: [1] }), json(200, { data: [2] })];
+      const service = createService();
+      const controller = new AbortController();
+
+      const aborted = service.request("charge-points/v1.0", {
+        jwtToken: "jwt",
+        signal: controller.signal,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      controller.abort();
+      const fresh = service.request("charge-points/v1.0", {
+        jwtToken: "jwt",
+        signal: new AbortController().signal,
+      });
+
+      await expect(aborted).rejects.toMatchObject({
+        code: "request_cancelled",
+      });
+      await expect(fresh).resolves.toEqual({ data: [2] });
+      expect(requests).toHaveLength(2);
+    });
+  });
+
+  describe("requestAllPages", () => {
+    // Serves 5 pages of `per_page` numbered items
+    const paginated: StubHandler = (req, res) => {
+      const url = new URL(req.url!, baseUrl);
+      const page = Number(url.searchParams.get("page"));
+      const perPage = Number(url.searchParams.get("per_page"));
+      const data = Array.from(
+        { length: perPage },
+        (_, i) => (page - 1) * perPage + i + 1
+      );
+      json(200, {
+        data,
+        meta: {
+          current_page: page,
+          last_page: 5,
+          per_page: perPage,
+          total: 5 * perPage,
+        },
+      })(req, res);
+    };
+
+    it("should merge every page into one data array", async () => {
+      handlers = [paginated];
+
+      const result = await createService().requestAllPages<number>(
+        "sessions/v1.0",
+        {
+          jwtToken: "jwt",
+          params: { filter: { status: "finished" } },
+          pageSize: 2,
+        }
+      );
+
+      expect(result.data).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+      expect(result.meta).toMatchObject({
+        total: 10,
+        pages_fetched: 5,
+        truncated: false,
+      });
+      expect(requests).toHaveLength(5);
+      expect(decodeURIComponent(requests[0].url!)).toContain(
+        "filter[status]=finished"
+      );
+    });
+
+    it("should stop at the page and item caps", async () => {
+      handlers = [paginated];
+
+      const byPages = await createService().requestAllPages<number>(
+        "sessions/v1.0",
+        { jwtToken: "jwt", pageSize: 2, maxPages: 2 }
+      );
+      expect(byPages.data).toEqual([1, 2, 3, 4]);
+      expect(byPages.meta.truncated).toBe(true);
+
+      const byItems = await createService().requestAllPages<number>(
+        "sessions/v1.0",
+        { jwtToken: "jwt", pageSize: 2, maxItems: 3 }
+      );
+      expect(byItems.data).toEqual([1, 2, 3]);
+      expect(byItems.meta).toMatchObject({ pages_fetched: 2, truncated: true });
+    });
+  });
+
+  describe("proxy route", () => {
+    beforeEach(() => {
+      mockGetApiService.mockReturnValue(createService());
+    });
+
+    afterEach(() => {
+      mockGetApiService.mockImplementation(actualGetApiService);
+    });
+
+    function get(accept: string) {
+      return GET(
+        new NextRequest("http://localhost:3000/api/sessions/v1.0?token=jwt", {
+          headers: { Accept: accept },
+        }),
+        { params: Promise.resolve({ path: ["sessions", "v1.0"] }) }
+      );
+    }
+
+    it("should stream when only a non-JSON type is accepted", async () => {
+      handlers = [
+        (_req, res) => {
+          res.writeHead(200, { "Content-Type": "text/csv" });
+          res.end("id\n1\n");
+        },
+      ];
+
+      const response = await get("text/csv");
+
+      expect(await response.text()).toBe("id\n1\n");
+      expect(requests[0].headers.accept).toBe("text/csv");
+      expect(requests[0].url).toBe("/public-api/resources/sessions/v1.0");
+    });
+
+    it("should answer JSON when JSON or anything is accepted", async () => {
+      for (const accept of ["application/json", "*/*", "text/csv, */*"]) {
+        handlers = [json(200, { data: [1] })];
+        requests = [];
+
+        const response = await get(accept);
+
+        expect(response.headers.get("content-type")).toContain(
+          "application/json"
+        );
+        expect(await response.json()).toEqual({ data: [1] });
+        expect(requests[0].headers.accept).toBe("application/json");
+      }
+    });
+
+    it("should pass content headers through and drop the rest", async () => {
+      handlers = [
+        (_req, res) => {
+          res.writeHead(200, {
+            "Content-Type": "application/pdf",
+            "Content-Disposition": 'attachment; filename="invoice.pdf"',
+            "Content-Length": "4",
+            ETag: '"v1"',
+            "Last-Modified": "Mon, 19 Oct 2026 10:00:00 GMT",
+            "Set-Cookie": "upstream=1",
+            "X-Internal": "secret",
+          });
+          res.end("%PDF");
+        },
+      ];
+
+      const response = await get("application/pdf");
+
+      expect(response.status).toBe(200);
+      expect(Object.fromEntries(response.headers)).toEqual({
+        "content-type": "application/pdf",
+        "content-disposition": 'attachment; filename="invoice.pdf"',
+        "content-length": "4",
+        etag: '"v1"',
+        "last-modified": "Mon, 19 Oct 2026 10:00:00 GMT",
+      });
+      expect(await response.text()).toBe("%PDF");
+    });
+
+    it("should drop content-length of compressed upstream bodies", async () => {
+      const compressed = gzipSync("id\n1\n2\n3\n");
+      handlers = [
+        (_req, res) => {
+          res.writeHead(200, {
+            "Content-Type": "text/csv",
+            "Content-Encoding": "gzip",
+            "Content-Length": String(compressed.length),
+          });
+          res.end(compressed);
+        },
+      ];
+
+      const response = await get("text/csv");
+
+      expect(response.headers.get("content-length")).toBeNull();
+      expect(await response.text()).toBe("id\n1\n2\n3\n");
+    });
+
+    it("should turn upstream errors into the error envelope", async () => {
+      handlers = [json(404, { message: "Session not found" })];
+
+      const response = await get("text/csv");
+
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "not_found",
+          message: "Session not found",
+          status: 404,
+        },
+      });
+    });
+  });
+
+  describe("getApiService", () => {
+    const originalEnv = process.env;
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it("should keep one service per tenant", () => {
+      process.env = {
+        ...originalEnv,
+        AMPECO_TENANTS: JSON.stringify({
+          "tenant-b.charge.ampeco.tech": { apiToken: "sk_b" },
+        }),
+      };
+
+      const tenantB = getApiService("https://tenant-b.charge.ampeco.tech");
+
+      expect(tenantB).not.toBe(getApiService());
+      expect(getApiService("https://tenant-b.charge.ampeco.tech")).toBe(
+        tenantB
+      );
+      expect(() => getApiService("https://evil.example")).toThrow(
+        "Unknown AMPECO tenant"
+      );
+    });
+  });
+});
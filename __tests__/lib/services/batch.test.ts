@@ -0,0 +1,198 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for batch proxy requests
+ */
+
+import type { JwtContext } from "@/lib/auth/get-jwt-context";
+import { ApiRequestError } from "@/lib/services/api-error";
+import {
+  MAX_BATCH_SIZE,
+  executeBatch,
+  normalizeBatchEndpoint,
+} from "@/lib/services/batch";
+import { executeProxyRequest } from "@/lib/services/proxy";
+
+jest.mock("@/lib/services/proxy", () => ({
+  ...jest.requireActual("@/lib/services/proxy"),
+  executeProxyRequest: jest.fn(),
+}));
+
+const mockExecute = executeProxyRequest as jest.MockedFunction<
+  typeof executeProxyRequest
+>;
+
+describe("Batch", () => {
+  const context: JwtContext = {
+    userId: 7,
+    appId: 1,
+    widgetId: 3,
+    widgetName: "Charge point status",
+    impersonate: false,
+    jwtToken: "token",
+    tenantUrl: "https://demo.charge.ampeco.tech",
+    resource: "charge_point",
+    resourceId: "12",
+  };
+
+  beforeEach(() => {
+    mockExecute.mockReset();
+  });
+
+  describe("normalizeBatchEndpoint", () => {
+    it("should strip the proxy prefix", () => {
+      expect(normalizeBatchEndpoint("/api/sessions/v1.0")).toBe(
+        "sessions/v1.0"
+      );
+      expect(normalizeBatchEndpoint("sessions/v1.0")).toBe("sessions/v1.0");
+    });
+  });
+
+  describe("executeBatch", () => {
+    it("should return results and errors per item, in order", async () => {
+      mockExecute.mockImplementation(async ({ endpoint }) => {
+        if (endpoint === "charge-points/v1.0/999") {
+          throw new ApiRequestError("Not found", { status: 404 });
+        }
+        return { status: 200, data: { endpoint } };
+      });
+
+      const results = await executeBatch(
+        [
+          { endpoint: "/api/sessions/v1.0" },
+          { endpoint: "/api/charge-points/v1.0/999" },
+          { endpoint: "/api/evses/v2.1" },
+        ],
+        context
+      );
+
+      expect(results).toEqual([
+        { status: 200, data: { endpoint: "sessions/v1.0" } },
+        {
+          status: 404,
+          error: { code: "not_found", message: "Not found", status: 404 },
+        },
+        { status: 200, data: { endpoint: "evses/v2.1" } },
+      ]);
+    });
+
+    it("should merge inline query strings with params", async () => {
+      mockExecute.mockResolvedValue({ status: 200, data: {} });
+
+      await executeBatch(
+        [
+          {
+            endpoint: "/api/sessions/v1.0?page=2&token=jwt",
+            params: { filter: { status: ["active"] } },
+          },
+        ],
+        context
+      );
+
+      const { params } = mockExecute.mock.calls[0][0];
+      expect(decodeURIComponent(String(params))).toBe(
+        "page=2&filter[status][]=active"
+      );
+    });
+
+    it("should decode item endpoints once, like the catch-all route", async () => {
+      mockExecute.mockResolvedValue({ status: 200, data: {} });
+
+      const results = await executeBatch(
+        [{ endpoint: "/api/charge-points/v1.0/CP%201" }, { endpoint: "%E0" }],
+        context
+      );
+
+      expect(mockExecute.mock.calls[0][0].endpoint).toBe(
+        "charge-points/v1.0/CP 1"
+      );
+      expect(results[1].status).toBe(400);
+    });
+
+    it("should reject encoded traversal before it reaches the upstream", async () => {
+      const { executeProxyRequest: actualExecute } = jest.requireActual<
+        typeof import("@/lib/services/proxy")
+      >("@/lib/services/proxy");
+      mockExecute.mockImplementation(actualExecute);
+
+      const results = await executeBatch(
+        [
+          { endpoint: "/api/charge-points/v1.0/%2e%2e/%2e%2e/users/v1.0" },
+          { endpoint: "/api/charge-points/v1.0/%252e%252e/users/v1.0" },
+          { endpoint: "/api/charge-points/v1.0/..%2f..%2fusers" },
+        ],
+        context
+      );
+
+      expect(results.map((r) => r.status)).toEqual([403, 403, 403]);
+    });
+
+    it("should reject fetch_all in batch items", async () => {
+      mockExecute.mockResolvedValue({ status: 200, data: {} });
+
+      const results = await executeBatch(
+        [
+          { endpoint: "/api/sessions/v1.0?fetch_all=1" },
+          { endpoint: "/api/sessions/v1.0", params: { fetch_all: 1 } },
+        ],
+        context
+      );
+
+      expect(results.map((r) => r.status)).toEqual([400, 400]);
+      expect(mockExecute).not.toHaveBeenCalled();
+    });
+
+    it("should reject malformed items individually", async () => {
+      const results = await executeBatch(
+        [{ method: "TRACE", endpoint: "sessions/v1.0" }, { foo: 1 }],
+        context
+      );
+
+      expect(results.map((r) => r.status)).toEqual([400, 400]);
+      expect(mockExecute).not.toHaveBeenCalled();
+    });
+
+    it("should reject non-array and oversized batches", async () => {
+      await expect(executeBatch({}, context)).rejects.toMatchObject({
+        status: 400,
+      });
+      await expect(
+        executeBatch(
+          Array.from({ length: MAX_BATCH_SIZE + 1 }, () => ({
+            endpoint: "sessions/v1.0",
+          })),
+          context
+        )
+      ).rejects.toMatchObject({ status: 400 });
+    });
+
+    it("should reject batches without a JWT context", async () => {
+      await expect(
+        executeBatch([{ endpoint: "sessions/v1.0" }], null)
+      ).rejects.toMatchObject({ status: 401, code: "unauthorized" });
+      expect(mockExecute).not.toHaveBeenCalled();
+    });
+
+    it("should bound concurrency", async () => {
+      let active = 0;
+      let peak = 0;
+      mockExecute.mockImplementation(async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+        return { status: 200, data: {} };
+      });
+
+      await executeBatch(
+        Array.from({ length: 10 }, () => ({ endpoint: "sessions/v1.0" })),
+        context
+      );
+
+      expect(mockExecute).toHaveBeenCalledTimes(10);
+      expect(peak).toBeLessThanOrEqual(4);
+    });
+  });
+});
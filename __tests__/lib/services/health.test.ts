@@ -0,0 +1,156 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the readiness checks
+ */
+
+import { checkPublicKey } from "@/lib/auth/jwt-verifier";
+import { getApiService } from "@/lib/services/api";
+import {
+  getReadinessReport,
+  runReadinessChecks,
+  toPublicReport,
+} from "@/lib/services/health";
+
+jest.mock("@/lib/auth/jwt-verifier", () => ({
+  checkPublicKey: jest.fn(),
+}));
+
+jest.mock("@/lib/services/api", () => ({
+  getApiService: jest.fn(),
+}));
+
+const mockCheckPublicKey = checkPublicKey as jest.MockedFunction<
+  typeof checkPublicKey
+>;
+const mockRequest = jest.fn();
+
+describe("Readiness checks", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    mockCheckPublicKey.mockReset().mockResolvedValue(undefined);
+    mockRequest.mockReset().mockResolvedValue({ data: [] });
+    (getApiService as jest.Mock).mockReturnValue({ request: mockRequest });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("should be ready when config and JWKS are valid", async () => {
+    const report = await runReadinessChecks();
+
+    expect(report.status).toBe("ready");
+    expect(report.checks.config.status).toBe("ok");
+    expect(report.checks.jwks.status).toBe("ok");
+    expect(report.checks.upstream).toMatchObject({
+      status: "skipped",
+      error: "HEALTH_PROBE_ENDPOINT is not set",
+    });
+    expect(mockRequest).not.toHaveBeenCalled();
+  });
+
+  it("should skip dependent checks when config is invalid", async () => {
+    delete process.env.AMPECO_API_TOKEN;
+
+    const report = await runReadinessChecks();
+
+    expect(report.status).toBe("not_ready");
+    expect(report.checks.config).toMatchObject({
+      status: "fail",
+      error: "Missing required environment variables: AMPECO_API_TOKEN",
+    });
+    expect(report.checks.jwks.status).toBe("skipped");
+    expect(mockCheckPublicKey).not.toHaveBeenCalled();
+  });
+
+  it("should fail when the JWKS has no usable key", async () => {
+    mockCheckPublicKey.mockRejectedValue(
+      new Error("No matching key found in JWKS (kid=1, alg=ES256)")
+    );
+
+    const report = await runReadinessChecks();
+
+    expect(report.status).toBe("not_ready");
+    expect(report.checks.jwks).toMatchObject({
+      status: "fail",
+      error: "No matching key found in JWKS (kid=1, alg=ES256)",
+    });
+  });
+
+  it("should probe the upstream endpoint without retries", async () => {
+    const report = await runReadinessChecks({
+      probeEndpoint: "charge-points/v2.0?per_page=1",
+    });
+
+    expect(report.checks.upstream.status).toBe("ok");
+    expect(mockRequest).toHaveBeenCalledWith(
+      "charge-points/v2.0?per_page=1",
+      expect.objectContaining({ retries: 0, signal: expect.any(AbortSignal) })
+    );
+  });
+
+  it("should fail checks that exceed the timeout", async () => {
+    mockRequest.mockReturnValue(new Promise(() => {}));
+
+    const report = await runReadinessChecks({
+      timeoutMs: 20,
+      probeEndpoint: "charge-points/v2.0",
+    });
+
+    expect(report.status).toBe("not_ready");
+    expect(report.checks.upstream).toMatchObject({
+      status: "fail",
+      error: "Timed out after 20ms",
+    });
+    expect(report.checks.upstream.latencyMs).toBeGreaterThanOrEqual(15);
+  });
+
+  it("should skip the JWKS check in mock mode", async () => {
+    process.env.AMPECO_MOCK = "1";
+
+    const report = await runReadinessChecks();
+
+    expect(report.status).toBe("ready");
+    expect(report.checks.jwks).toMatchObject({
+      status: "skipped",
+      error: "AMPECO_MOCK is enabled",
+    });
+    expect(mockCheckPublicKey).not.toHaveBeenCalled();
+  });
+
+  it("should reuse a recent report and share a run in progress", async () => {
+    const [first, concurrent] = await Promise.all([
+      getReadinessReport(0),
+      getReadinessReport(0),
+    ]);
+    const cached = await getReadinessReport(60_000);
+
+    expect(concurrent).toBe(first);
+    expect(cached).toBe(first);
+    expect(mockCheckPublicKey).toHaveBeenCalledTimes(1);
+
+    await getReadinessReport(0);
+    expect(mockCheckPublicKey).toHaveBeenCalledTimes(2);
+  });
+
+  it("should keep per-check status and latency in the public report", async () => {
+    mockCheckPublicKey.mockRejectedValue(new Error("JWKS fetch failed"));
+
+    const report = toPublicReport(await runReadinessChecks());
+
+    expect(report).toEqual({
+      status: "not_ready",
+      timestamp: expect.any(String),
+      checks: {
+        config: { status: "ok", latencyMs: expect.any(Number) },
+        jwks: { status: "fail", latencyMs: expect.any(Number) },
+        upstream: { status: "skipped", latencyMs: 0 },
+      },
+    });
+  });
+});
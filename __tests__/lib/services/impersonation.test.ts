@@ -0,0 +1,151 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the impersonation policy on proxied mutations
+ */
+
+import type { JwtContext } from "@/lib/auth/get-jwt-context";
+import type { ApiPolicyRule } from "@/lib/config/api-policy";
+import {
+  enforceImpersonationPolicy,
+  getImpersonationMode,
+} from "@/lib/services/impersonation";
+import { guardProxyRequest } from "@/lib/services/proxy";
+
+jest.mock("@/lib/config/api-policy", () => ({
+  ...jest.requireActual("@/lib/config/api-policy"),
+  // Allow every request so the impersonation policy decides
+  evaluateApiPolicy: (request: { method: string }) => ({
+    allowed: true,
+    rule: { pattern: "**", methods: [request.method] },
+  }),
+}));
+
+describe("Impersonation Policy", () => {
+  const originalEnv = process.env;
+  const rule: ApiPolicyRule = {
+    pattern: "charge-points/{version}/*",
+    methods: ["PATCH"],
+    versions: ["v1.0"],
+  };
+  const context: JwtContext = {
+    userId: 7,
+    appId: 1,
+    widgetId: 3,
+    widgetName: "test",
+    impersonate: true,
+    jwtToken: "jwt",
+    tenantUrl: "https://demo.charge.ampeco.tech",
+    resource: "dashboard",
+    resourceId: null,
+  };
+
+  /**
+   * Runs the policy for a PATCH with the given overrides
+   */
+  function check(
+    overrides: Partial<Parameters<typeof enforceImpersonationPolicy>[0]> = {}
+  ) {
+    return () =>
+      enforceImpersonationPolicy({
+        method: "PATCH",
+        endpoint: "charge-points/v1.0/12",
+        context,
+        rule,
+        ...overrides,
+      });
+  }
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe("getImpersonationMode", () => {
+    it("should audit by default", () => {
+      delete process.env.AMPECO_IMPERSONATION_POLICY;
+
+      expect(getImpersonationMode(rule)).toBe("audit");
+    });
+
+    it("should read AMPECO_IMPERSONATION_POLICY and rule overrides", () => {
+      process.env.AMPECO_IMPERSONATION_POLICY = "Block";
+
+      expect(getImpersonationMode(rule)).toBe("block");
+      expect(getImpersonationMode({ ...rule, impersonation: "allow" })).toBe(
+        "allow"
+      );
+    });
+
+    it("should refuse unknown modes", () => {
+      process.env.AMPECO_IMPERSONATION_POLICY = "read-only";
+
+      expect(() => getImpersonationMode(rule)).toThrow(
+        "AMPECO_IMPERSONATION_POLICY must be one of allow, audit, confirm, block"
+      );
+    });
+  });
+
+  describe("enforceImpersonationPolicy", () => {
+    it("should block mutations while impersonating", () => {
+      process.env.AMPECO_IMPERSONATION_POLICY = "block";
+
+      expect(check()).toThrow(
+        expect.objectContaining({
+          status: 403,
+          code: "impersonation_blocked",
+        })
+      );
+    });
+
+    it("should require confirmation", () => {
+      process.env.AMPECO_IMPERSONATION_POLICY = "confirm";
+
+      expect(check()).toThrow(
+        expect.objectContaining({
+          status: 428,
+          code: "impersonation_confirmation_required",
+        })
+      );
+      expect(check({ confirmed: true })).not.toThrow();
+    });
+
+    it("should ignore reads and users acting for themselves", () => {
+      process.env.AMPECO_IMPERSONATION_POLICY = "block";
+
+      expect(check({ method: "GET" })).not.toThrow();
+      expect(
+        check({ context: { ...context, impersonate: false } })
+      ).not.toThrow();
+      expect(check({ context: null })).not.toThrow();
+    });
+  });
+
+  describe("proxy pipeline", () => {
+    it("should reject before the request is forwarded", async () => {
+      process.env.AMPECO_IMPERSONATION_POLICY = "block";
+      const run = jest.fn(async () => ({ status: 200 }));
+
+      await expect(
+        guardProxyRequest("DELETE", "charge-points/v1.0/12", context, run)
+      ).rejects.toMatchObject({ code: "impersonation_blocked" });
+      expect(run).not.toHaveBeenCalled();
+    });
+
+    it("should forward confirmed mutations", async () => {
+      process.env.AMPECO_IMPERSONATION_POLICY = "confirm";
+      const run = jest.fn(async () => ({ status: 200 }));
+
+      await guardProxyRequest("POST", "charge-points/v1.0", context, run, {
+        impersonationConfirmed: true,
+      });
+
+      expect(run).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the metrics registry
+ */
+
+import type { JwtContext } from "@/lib/auth/get-jwt-context";
+import {
+  Counter,
+  Histogram,
+  getEndpointTemplate,
+  getMetrics,
+  recordProxyRequest,
+  renderMetrics,
+  resetMetrics,
+} from "@/lib/services/metrics";
+import { guardProxyRequest } from "@/lib/services/proxy";
+
+describe("Metrics", () => {
+  beforeEach(() => {
+    resetMetrics();
+  });
+
+  describe("Counter", () => {
+    it("should render one line per label set", () => {
+      const counter = new Counter("test_total", "Test counter", ["reason"]);
+      counter.inc({ reason: "expired" });
+      counter.inc({ reason: "expired" });
+      counter.inc({ reason: 'say "hi"\n' }, 3);
+
+      expect(counter.render()).toEqual([
+        "# HELP test_total Test counter",
+        "# TYPE test_total counter",
+        'test_total{reason="expired"} 2',
+        'test_total{reason="say \\"hi\\"\\n"} 3',
+      ]);
+    });
+  });
+
+  describe("Histogram", () => {
+    it("should render cumulative buckets, sum and count", () => {
+      const histogram = new Histogram(
+        "test_seconds",
+        "Test",
+        ["method"],
+        [0.1, 1]
+      );
+      histogram.observe({ method: "GET" }, 0.05);
+      histogram.observe({ method: "GET" }, 0.5);
+      histogram.observe({ method: "GET" }, 2);
+
+      expect(histogram.render().slice(2)).toEqual([
+        'test_seconds_bucket{method="GET",le="0.1"} 1',
+        'test_seconds_bucket{method="GET",le="1"} 2',
+        'test_seconds_bucket{method="GET",le="+Inf"} 3',
+        'test_seconds_sum{method="GET"} 2.55',
+        'test_seconds_count{method="GET"} 3',
+      ]);
+    });
+  });
+
+  describe("getEndpointTemplate", () => {
+    it("should collapse ids but keep version segments", () => {
+      expect(getEndpointTemplate("/charge-points/v1.0/123/evses/456/")).toBe(
+        "charge-points/v1.0/:id/evses/:id"
+      );
+      expect(getEndpointTemplate("sessions/v1.0")).toBe("sessions/v1.0");
+    });
+  });
+
+  describe("recordProxyRequest", () => {
+    it("should count requests and observe latency by policy pattern", () => {
+      recordProxyRequest("charge-points/{version}/**", "GET", 200, 40);
+      recordProxyRequest("charge-points/{version}/**", "GET", 200, 300);
+
+      const labels = {
+        endpoint: "charge-points/{version}/**",
+        method: "GET",
+        status: 200,
+      };
+      expect(getMetrics().proxyRequests.get(labels)).toBe(2);
+
+      const output = renderMetrics();
+      expect(output).toContain(
+        'widget_proxy_requests_total{endpoint="charge-points/{version}/**",method="GET",status="200"} 2'
+      );
+      expect(output).toContain(
+        'widget_proxy_request_duration_seconds_bucket{endpoint="charge-points/{version}/**",method="GET",status="200",le="0.05"} 1'
+      );
+      expect(output).toContain("# TYPE widget_jwks_fetches_total counter");
+    });
+  });
+
+  describe("guardProxyRequest", () => {
+    const context: JwtContext = {
+      userId: 7,
+      appId: 1,
+      widgetId: 3,
+      widgetName: "Charge point status",
+      impersonate: false,
+      jwtToken: "token",
+      tenantUrl: "https://demo.charge.ampeco.tech",
+      resource: "charge_point",
+      resourceId: "12",
+    };
+
+    it("should label arbitrary paths under one rule with its pattern", async () => {
+      for (const path of ["abc", "xyz", "123/evses"]) {
+        await guardProxyRequest(
+          "GET",
+          `charge-points/v1.0/${path}`,
+          context,
+          async () => ({ status: 200 })
+        );
+      }
+      await expect(
+        guardProxyRequest("GET", "users/v1.0", context, async () => ({
+          status: 200,
+        }))
+      ).rejects.toMatchObject({ status: 403 });
+
+      const output = renderMetrics();
+      expect(output).toContain(
+        'widget_proxy_requests_total{endpoint="charge-points/{version}/**",method="GET",status="200"} 3'
+      );
+      expect(output).toContain(
+        'widget_proxy_requests_total{endpoint="(denied)",method="GET",status="403"} 1'
+      );
+      expect(output).not.toContain("charge-points/v1.0");
+    });
+  });
+});
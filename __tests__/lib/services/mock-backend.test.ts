@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the mock AMPECO backend, driven through ApiService
+ */
+
+import { ApiService, type ApiRequestOptions } from "@/lib/services/api";
+import { MockAmpecoBackend } from "@/lib/services/mock-backend";
+
+type Page = {
+  data: Record<string, unknown>[];
+  meta: { current_page: number; last_page: number; total: number };
+};
+
+describe("MockAmpecoBackend", () => {
+  let backend: MockAmpecoBackend;
+  let service: ApiService;
+
+  beforeEach(() => {
+    backend = new MockAmpecoBackend();
+    service = new ApiService({ fetch: backend.fetch });
+  });
+
+  function request<T>(endpoint: string, options: ApiRequestOptions = {}) {
+    return service.request<T>(endpoint, { jwtToken: "jwt", ...options });
+  }
+
+  it("should paginate seeded collections", async () => {
+    const page = await request<Page>("sessions/v1.0", {
+      params: { page: 2, per_page: 25 },
+    });
+
+    expect(page.data).toHaveLength(25);
+    expect(page.data[0].id).toBe(26);
+    expect(page.meta).toEqual({
+      current_page: 2,
+      last_page: 3,
+      per_page: 25,
+      total: 60,
+    });
+  });
+
+  it("should filter by field, including array filters", async () => {
+    const evses = await request<Page>("evses/v2.1", {
+      params: { filter: { chargePointId: 3 } },
+    });
+    const sessions = await request<Page>("sessions/v1.0", {
+      params: { filter: { status: ["active", "paused"] }, per_page: 100 },
+    });
+
+    expect(evses.data.map((evse) => evse.id)).toEqual([5, 6]);
+    expect(sessions.meta.total).toBe(3);
+    expect(sessions.data.every((s) => s.status === "active")).toBe(true);
+  });
+
+  it("should keep created, updated and deleted records in memory", async () => {
+    const created = await request<{ data: { id: number } }>(
+      "charge-points/v2.0",
+      { method: "POST", body: { name: "Office #1", locationId: 4 } }
+    );
+    expect(created.data.id).toBe(10);
+
+    await request(`charge-points/v2.0/${created.data.id}`, {
+      method: "PATCH",
+      body: { name: "Office #2" },
+    });
+    const updated = await request<{ data: Record<string, unknown> }>(
+      "charge-points/v1.0/10"
+    );
+    expect(updated.data).toMatchObject({ name: "Office #2", locationId: 4 });
+
+    await request("charge-points/v2.0/10", { method: "DELETE" });
+    await expect(request("charge-points/v2.0/10")).rejects.toMatchObject({
+      status: 404,
+      code: "not_found",
+    });
+  });
+
+  it("should reject invalid records with validation errors", async () => {
+    await expect(
+      request("charge-points/v2.0", { method: "POST", body: {} })
+    ).rejects.toMatchObject({
+      status: 422,
+      errors: { name: ["The name field is required."] },
+    });
+  });
+
+  it("should return 404 for resources it does not serve", async () => {
+    await expect(request("tariffs/v1.0")).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for proxy response cache
+ */
+
+import type { ApiService } from "@/lib/services/api";
+import {
+  ResponseCache,
+  computeEtag,
+  matchesIfNoneMatch,
+} from "@/lib/services/response-cache";
+
+describe("Response Cache", () => {
+  const scope = { tenantUrl: "https://demo.charge.ampeco.tech", userId: 1 };
+  let cache: ResponseCache;
+  let apiService: {
+    request: jest.Mock;
+    requestConditional: jest.Mock;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ["nextTick", "setImmediate"] });
+    cache = new ResponseCache();
+    apiService = {
+      request: jest.fn(),
+      requestConditional: jest.fn(),
+    };
+  });
+
+  afterEach(() => {
+    cache.clear();
+    jest.useRealTimers();
+  });
+
+  function get(endpoint = "charge-points/v1.0", userId = scope.userId) {
+    return cache.get(
+      apiService as unknown as ApiService,
+      endpoint,
+      new URLSearchParams("page=1"),
+      { ...scope, userId },
+      30
+    );
+  }
+
+  it("should serve fresh entries without calling upstream", async () => {
+    apiService.requestConditional.mockResolvedValue({
+      notModified: false,
+      data: { data: [1] },
+      etag: '"v1"',
+    });
+
+    expect(await get()).toEqual({
+      data: { data: [1] },
+      etag: '"v1"',
+      status: "miss",
+    });
+    expect((await get()).status).toBe("fresh");
+    expect(apiService.requestConditional).toHaveBeenCalledTimes(1);
+  });
+
+  it("should revalidate stale entries with the upstream ETag", async () => {
+    apiService.requestConditional
+      .mockResolvedValueOnce({
+        notModified: false,
+        data: { data: [1] },
+        etag: '"v1"',
+      })
+      .mockResolvedValueOnce({ notModified: true, etag: '"v1"' });
+
+    await get();
+    jest.advanceTimersByTime(31 * 1000);
+    const result = await get();
+
+    expect(result).toEqual({
+      data: { data: [1] },
+      etag: '"v1"',
+      status: "revalidated",
+    });
+    expect(apiService.requestConditional).toHaveBeenLastCalledWith(
+      "charge-points/v1.0",
+      { params: expect.any(URLSearchParams) },
+      '"v1"'
+    );
+  });
+
+  it("should compute an ETag when upstream sends none", async () => {
+    apiService.requestConditional.mockResolvedValue({
+      notModified: false,
+      data: { data: [2] },
+      etag: null,
+    });
+
+    expect((await get()).etag).toBe(computeEtag({ data: [2] }));
+  });
+
+  it("should scope entries per user", async () => {
+    apiService.requestConditional.mockResolvedValue({
+      notModified: false,
+      data: { data: [] },
+      etag: '"v1"',
+    });
+
+    await get("charge-points/v1.0", 1);
+    await get("charge-points/v1.0", 2);
+
+    expect(apiService.requestConditional).toHaveBeenCalledTimes(2);
+  });
+
+  it("should invalidate the mutated collection for all users", async () => {
+    apiService.requestConditional.mockResolvedValue({
+      notModified: false,
+      data: { data: [] },
+      etag: '"v1"',
+    });
+
+    await get("charge-points/v1.0", 1);
+    await get("charge-points/v1.0/5", 2);
+    await get("sessions/v1.0", 1);
+
+    expect(cache.invalidate(scope.tenantUrl, "charge-points/v1.0/5")).toBe(2);
+    expect((await get("sessions/v1.0", 1)).status).toBe("fresh");
+    expect((await get("charge-points/v1.0", 1)).status).toBe("miss");
+  });
+
+  describe("matchesIfNoneMatch", () => {
+    it("should compare ETags weakly", () => {
+      expect(matchesIfNoneMatch('W/"abc"', '"abc"')).toBe(true);
+      expect(matchesIfNoneMatch('"x", "abc"', 'W/"abc"')).toBe(true);
+      expect(matchesIfNoneMatch("*", '"abc"')).toBe(true);
+      expect(matchesIfNoneMatch('"x"', '"abc"')).toBe(false);
+      expect(matchesIfNoneMatch(null, '"abc"')).toBe(false);
+    });
+  });
+});
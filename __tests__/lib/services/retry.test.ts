@@ -0,0 +1,70 @@
+/**
+ * Tests for retry helpers
+ */
+
+import {
+  RetryBudget,
+  computeBackoff,
+  isRetryableStatus,
+  parseRetryAfter,
+} from "@/lib/services/retry";
+
+describe("Retry", () => {
+  const policy = {
+    maxRetries: 3,
+    baseDelayMs: 100,
+    maxDelayMs: 1000,
+    maxRetryAfterMs: 5000,
+  };
+
+  describe("computeBackoff", () => {
+    it("should stay within the exponential ceiling", () => {
+      for (let attempt = 0; attempt < 6; attempt++) {
+        const delay = computeBackoff(attempt, policy);
+        expect(delay).toBeGreaterThanOrEqual(0);
+        expect(delay).toBeLessThanOrEqual(
+          Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+        );
+      }
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    it("should parse delay-seconds", () => {
+      expect(parseRetryAfter("3")).toBe(3000);
+    });
+
+    it("should parse HTTP dates", () => {
+      const now = Date.parse("Wed, 21 Oct 2025 07:28:00 GMT");
+      expect(parseRetryAfter("Wed, 21 Oct 2025 07:28:05 GMT", now)).toBe(5000);
+      expect(parseRetryAfter("Wed, 21 Oct 2025 07:27:00 GMT", now)).toBe(0);
+    });
+
+    it("should ignore missing or invalid values", () => {
+      expect(parseRetryAfter(null)).toBeNull();
+      expect(parseRetryAfter("soon")).toBeNull();
+    });
+  });
+
+  describe("isRetryableStatus", () => {
+    it("should retry rate limits and server errors only", () => {
+      expect(isRetryableStatus(429)).toBe(true);
+      expect(isRetryableStatus(503)).toBe(true);
+      expect(isRetryableStatus(404)).toBe(false);
+      expect(isRetryableStatus(422)).toBe(false);
+    });
+  });
+
+  describe("RetryBudget", () => {
+    it("should stop retries once the budget is spent", () => {
+      const budget = new RetryBudget(2, 0.5);
+      expect(budget.withdraw()).toBe(true);
+      expect(budget.withdraw()).toBe(true);
+      expect(budget.withdraw()).toBe(false);
+
+      budget.deposit();
+      budget.deposit();
+      expect(budget.withdraw()).toBe(true);
+    });
+  });
+});
@@ -6,9 +6,14 @@ import {
   formatApiError,
   isNetworkError,
   isAuthError,
+  isNotFoundError,
+  isForbiddenError,
+  isValidationError,
+  getFieldErrors,
   ERROR_MESSAGES,
 } from "@/lib/utils/error-handler";
 import type { ApiError } from "@/lib/services/api";
+import { ApiRequestError } from "@/lib/services/api-error";
 
 describe("Error Handler", () => {
   describe("formatApiError", () => {
@@ -20,6 +25,24 @@ describe("Error Handler", () => {
       expect(formatApiError(error)).toBe("API request failed");
     });
 
+    it("should fall back to a message by error code", () => {
+      expect(formatApiError(new ApiRequestError("", { status: 404 }))).toBe(
+        ERROR_MESSAGES.NOT_FOUND
+      );
+      expect(formatApiError(new ApiRequestError("", { status: 403 }))).toBe(
+        ERROR_MESSAGES.FORBIDDEN
+      );
+      expect(
+        formatApiError({ message: "", status: 422, code: "validation_failed" })
+      ).toBe(ERROR_MESSAGES.VALIDATION_FAILED);
+      expect(formatApiError(new ApiRequestError("", { status: 429 }))).toBe(
+        ERROR_MESSAGES.RATE_LIMITED
+      );
+      expect(formatApiError(new ApiRequestError("", { status: 500 }))).toBe(
+        ERROR_MESSAGES.API_ERROR
+      );
+    });
+
     it("should handle expired JWT error", () => {
       const error = new Error("JWT token has expired");
       expect(formatApiError(error)).toBe(ERROR_MESSAGES.JWT_EXPIRED);
@@ -63,5 +86,30 @@ describe("Error Handler", () => {
       expect(isAuthError(new Error("401"))).toBe(true);
       expect(isAuthError(new Error("other error"))).toBe(false);
     });
+
+    it("should detect upstream 401 responses", () => {
+      expect(
+        isAuthError(new ApiRequestError("Unauthenticated.", { status: 401 }))
+      ).toBe(true);
+    });
+  });
+
+  describe("status helpers", () => {
+    it("should tell not found, forbidden and validation errors apart", () => {
+      const notFound = new ApiRequestError("Missing", { status: 404 });
+      const forbidden = new ApiRequestError("Denied", { status: 403 });
+      const invalid = new ApiRequestError("Invalid", {
+        status: 422,
+        errors: { name: ["Required"] },
+      });
+
+      expect(isNotFoundError(notFound)).toBe(true);
+      expect(isNotFoundError(forbidden)).toBe(false);
+      expect(isForbiddenError(forbidden)).toBe(true);
+      expect(isValidationError(invalid)).toBe(true);
+      expect(isValidationError(notFound)).toBe(false);
+      expect(getFieldErrors(invalid)).toEqual({ name: ["Required"] });
+      expect(getFieldErrors(notFound)).toEqual({});
+    });
   });
 });
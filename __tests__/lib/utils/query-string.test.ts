@@ -0,0 +1,110 @@
+/**
+ * Tests for query string serializer
+ */
+
+import {
+  appendQuery,
+  serializeQuery,
+  type QueryParams,
+} from "@/lib/utils/query-string";
+
+describe("Query String", () => {
+  describe("serializeQuery", () => {
+    it("should serialize scalars without coercion", () => {
+      expect(
+        serializeQuery({ id: "007", page: 2, active: true, name: "A B" })
+      ).toBe("id=007&page=2&active=true&name=A+B");
+    });
+
+    it("should serialize arrays with bracket notation", () => {
+      expect(
+        decodeURIComponent(
+          serializeQuery({ filter: { status: ["available", "charging"] } })
+        )
+      ).toBe("filter[status][]=available&filter[status][]=charging");
+    });
+
+    it("should serialize dates as ISO strings", () => {
+      expect(
+        decodeURIComponent(
+          serializeQuery({
+            filter: { createdAfter: new Date("2024-01-01T00:00:00Z") },
+          })
+        )
+      ).toBe("filter[createdAfter]=2024-01-01T00:00:00.000Z");
+    });
+
+    it("should index arrays of objects", () => {
+      expect(
+        decodeURIComponent(
+          serializeQuery({ sort: [{ field: "name" }, { field: "id" }] })
+        )
+      ).toBe("sort[0][field]=name&sort[1][field]=id");
+    });
+
+    it("should skip null and undefined values", () => {
+      expect(serializeQuery({ a: null, b: undefined, c: "1" })).toBe("c=1");
+    });
+
+    it("should pass strings and URLSearchParams through verbatim", () => {
+      expect(serializeQuery("?a=1&a=2&b=%5B%5D")).toBe("a=1&a=2&b=%5B%5D");
+      expect(serializeQuery(new URLSearchParams("x=1&x=2"))).toBe("x=1&x=2");
+    });
+  });
+
+  describe("appendQuery", () => {
+    it("should append to paths with and without a query string", () => {
+      expect(appendQuery("/api/evses/v2.1", { page: 1 })).toBe(
+        "/api/evses/v2.1?page=1"
+      );
+      expect(appendQuery("/api/evses/v2.1?a=1", { page: 1 })).toBe(
+        "/api/evses/v2.1?a=1&page=1"
+      );
+      expect(appendQuery("/api/evses/v2.1", {})).toBe("/api/evses/v2.1");
+    });
+  });
+
+  describe("round trip", () => {
+    /**
+     * Decodes a serialized query into key/value pairs, as the proxy and
+     * AMPECO read it
+     */
+    function entries(query: string): [string, string][] {
+      return [...new URLSearchParams(query)];
+    }
+
+    it("should keep long numeric IDs and leading zeros as strings", () => {
+      expect(
+        entries(serializeQuery({ id: "12345678901234567890", code: "007" }))
+      ).toEqual([
+        ["id", "12345678901234567890"],
+        ["code", "007"],
+      ]);
+    });
+
+    it("should decode nested params to bracketed keys", () => {
+      const params: QueryParams = {
+        filter: {
+          chargePointId: "12",
+          evse: { status: ["faulted", "available"] },
+        },
+        sort: [{ field: "name", dir: "asc" }, { field: "id" }],
+      };
+
+      expect(entries(serializeQuery(params))).toEqual([
+        ["filter[chargePointId]", "12"],
+        ["filter[evse][status][]", "faulted"],
+        ["filter[evse][status][]", "available"],
+        ["sort[0][field]", "name"],
+        ["sort[0][dir]", "asc"],
+        ["sort[1][field]", "id"],
+      ]);
+    });
+
+    it("should round-trip raw query strings", () => {
+      const query =
+        "filter%5Bstatus%5D%5B%5D=a&filter%5Bstatus%5D%5B%5D=b&page=1";
+      expect(serializeQuery(new URLSearchParams(query))).toBe(query);
+    });
+  });
+});
@@ -0,0 +1,430 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the authentication middleware, using tokens from the
+ * development JWT issuer
+ */
+
+import { NextRequest } from "next/server";
+import { config, middleware } from "@/middleware";
+import { mintDevToken } from "@/lib/auth/dev-issuer";
+import { SESSION_COOKIE_NAME, sealSession } from "@/lib/auth/session";
+import { CSRF_COOKIE_NAME } from "@/lib/middleware/csrf";
+import {
+  MemoryRateLimitStore,
+  setRateLimitStore,
+} from "@/lib/middleware/rate-limit";
+
+describe("middleware", () => {
+  const originalEnv = process.env;
+  const origin = "http://localhost:3000";
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, DEV_JWT_ISSUER: "1" };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("should pass the verified JWT context to route handlers", async () => {
+    const token = await mintDevToken({
+      userId: 7,
+      widgetId: 3,
+      resource: "charge_point",
+      resourceId: "12",
+    });
+
+    const response = await middleware(
+      new NextRequest(`${origin}/api/sessions/v1.0?token=${token}`)
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("x-middleware-next")).toBe("1");
+    expect(response.headers.get("x-middleware-request-x-ampeco-user-id")).toBe(
+      "7"
+    );
+    expect(
+      response.headers.get("x-middleware-request-x-ampeco-widget-id")
+    ).toBe("3");
+    expect(response.headers.get("x-middleware-request-x-ampeco-resource")).toBe(
+      "charge_point"
+    );
+    expect(
+      response.headers.get("x-middleware-request-x-ampeco-resource-id")
+    ).toBe("12");
+    expect(response.headers.get("ratelimit-limit")).not.toBeNull();
+    expect(response.headers.get("x-request-id")).toEqual(expect.any(String));
+  });
+
+  it("should reject requests without a token", async () => {
+    const response = await middleware(
+      new NextRequest(`${origin}/api/sessions/v1.0`)
+    );
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({
+      error: {
+        code: "unauthorized",
+        message:
+          "JWT token is required. Please ensure the widget is loaded from AMPECO backend.",
+        status: 401,
+      },
+    });
+  });
+
+  it("should reject expired tokens", async () => {
+    const token = await mintDevToken({ expiresInSeconds: -120 });
+
+    const response = await middleware(
+      new NextRequest(`${origin}/?token=${token}`)
+    );
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({
+      error: {
+        code: "unauthorized",
+        message: "JWT token has expired. Please refresh the page.",
+        status: 401,
+      },
+    });
+  });
+
+  it("should not pass configuration errors on to the client", async () => {
+    const token = await mintDevToken();
+    process.env.AMPECO_TENANTS =
+      '{"a.charge.ampeco.tech": {"apiToken": "secret-token"';
+
+    const response = await middleware(
+      new NextRequest(`${origin}/api/sessions/v1.0?token=${token}`)
+    );
+
+    expect(response.status).toBe(401);
+    expect(JSON.stringify(await response.json())).not.toMatch(
+      /secret-token|AMPECO_TENANTS/
+    );
+  });
+
+  it("should count requests without a valid token per client IP", async () => {
+    process.env.RATE_LIMIT_TRUSTED_PROXY_HOPS = "1";
+    setRateLimitStore(new MemoryRateLimitStore());
+    const request = () =>
+      middleware(
+        new NextRequest(`${origin}/api/batch?token=not-a-jwt`, {
+          headers: { "x-forwarded-for": "203.0.113.7" },
+        })
+      );
+
+    // The /api/batch rule allows 20 requests per window
+    for (let i = 0; i < 20; i++) {
+      expect((await request()).status).toBe(401);
+    }
+    const response = await request();
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("retry-after")).not.toBeNull();
+  });
+
+  describe("session cookie", () => {
+    beforeEach(() => {
+      process.env.SESSION_SECRET = "a-session-secret-of-at-least-32-chars";
+      process.env.CSRF_SECRET = "a-csrf-secret-of-at-least-32-characters";
+    });
+
+    it("should issue the cookie and redirect to check it came back", async () => {
+      const token = await mintDevToken();
+
+      const response = await middleware(
+        new NextRequest(`${origin}/widget?tab=2&token=${token}`)
+      );
+
+      expect(response.status).toBe(303);
+      expect(response.headers.get("location")).toBe(
+        `${origin}/widget?tab=2&token=${token}&session_check=1`
+      );
+      const cookie = response.headers.get("set-cookie")!;
+      expect(cookie).toContain(`${SESSION_COOKIE_NAME}=`);
+      expect(cookie).not.toContain(token);
+      expect(cookie).toMatch(/HttpOnly/i);
+      expect(cookie).toMatch(/Partitioned/i);
+    });
+
+    it("should drop the URL token once the cookie came back", async () => {
+      const token = await mintDevToken();
+      const request = new NextRequest(
+        `${origin}/widget?tab=2&token=${token}&session_check=1`
+      );
+      request.cookies.set(
+        SESSION_COOKIE_NAME,
+        await sealSession(token, Math.floor(Date.now() / 1000) + 3600)
+      );
+
+      const response = await middleware(request);
+
+      expect(response.status).toBe(303);
+      expect(response.headers.get("location")).toBe(`${origin}/widget?tab=2`);
+    });
+
+    it("should keep the URL token when the cookie did not come back", async () => {
+      const token = await mintDevToken({ userId: 5 });
+
+      const response = await middleware(
+        new NextRequest(`${origin}/widget?token=${token}&session_check=1`)
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("x-middleware-next")).toBe("1");
+      expect(
+        response.headers.get("x-middleware-request-x-ampeco-user-id")
+      ).toBe("5");
+      expect(response.headers.get("set-cookie")).toBeNull();
+    });
+
+    it("should not start a second session with the same token", async () => {
+      process.env.AMPECO_JWT_REPLAY_PROTECTION = "1";
+      const token = await mintDevToken();
+      const cookie = await sealSession(
+        token,
+        Math.floor(Date.now() / 1000) + 3600
+      );
+      const withCookie = (url: string) => {
+        const request = new NextRequest(url);
+        request.cookies.set(SESSION_COOKIE_NAME, cookie);
+        return request;
+      };
+      const url = `${origin}/widget?token=${token}`;
+      const checkUrl = `${url}&session_check=1`;
+
+      expect((await middleware(new NextRequest(url))).status).toBe(303);
+      expect((await middleware(withCookie(checkUrl))).status).toBe(303);
+
+      expect((await middleware(new NextRequest(url))).status).toBe(401);
+      expect((await middleware(new NextRequest(checkUrl))).status).toBe(401);
+      const replay = await middleware(withCookie(checkUrl));
+      expect(replay.status).toBe(401);
+      expect(replay.headers.get("set-cookie")).toMatch(/Max-Age=0/);
+    });
+
+    it("should keep serving a token whose cookie did not come back", async () => {
+      process.env.AMPECO_JWT_REPLAY_PROTECTION = "1";
+      const token = await mintDevToken({ userId: 5 });
+
+      // First load, then the cookie check without the cookie
+      const first = await middleware(
+        new NextRequest(`${origin}/widget?token=${token}`)
+      );
+      expect(first.status).toBe(303);
+      const check = await middleware(
+        new NextRequest(first.headers.get("location")!)
+      );
+      expect(check.status).toBe(200);
+
+      // Navigating on within the widget keeps the URL token
+      const next = await middleware(
+        new NextRequest(`${origin}/details?token=${token}`)
+      );
+      expect(next.status).toBe(200);
+      expect(next.headers.get("set-cookie")).toBeNull();
+      expect(next.headers.get("x-middleware-request-x-ampeco-user-id")).toBe(
+        "5"
+      );
+
+      // ... but the token can no longer start a session
+      const request = new NextRequest(first.headers.get("location")!);
+      request.cookies.set(
+        SESSION_COOKIE_NAME,
+        await sealSession(token, Math.floor(Date.now() / 1000) + 3600)
+      );
+      expect((await middleware(request)).status).toBe(401);
+    });
+
+    it("should authenticate from the cookie", async () => {
+      const token = await mintDevToken({ userId: 9 });
+      const request = new NextRequest(`${origin}/api/sessions/v1.0`);
+      request.cookies.set(
+        SESSION_COOKIE_NAME,
+        await sealSession(token, Math.floor(Date.now() / 1000) + 3600)
+      );
+
+      const response = await middleware(request);
+
+      expect(response.status).toBe(200);
+      expect(
+        response.headers.get("x-middleware-request-x-ampeco-user-id")
+      ).toBe("9");
+    });
+
+    it("should not redirect API requests carrying a URL token", async () => {
+      const token = await mintDevToken();
+
+      const response = await middleware(
+        new NextRequest(`${origin}/api/sessions/v1.0?token=${token}`)
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("set-cookie")).toBeNull();
+    });
+
+    it("should clear a session whose token is rejected", async () => {
+      const token = await mintDevToken({ expiresInSeconds: -120 });
+      const request = new NextRequest(`${origin}/`);
+      request.cookies.set(
+        SESSION_COOKIE_NAME,
+        await sealSession(token, Math.floor(Date.now() / 1000) + 3600)
+      );
+
+      const response = await middleware(request);
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get("set-cookie")).toMatch(/Max-Age=0/);
+    });
+
+    it("should issue a CSRF cookie with the session", async () => {
+      const token = await mintDevToken();
+
+      const response = await middleware(
+        new NextRequest(`${origin}/widget?token=${token}`)
+      );
+
+      const csrfCookie = response.cookies.get(CSRF_COOKIE_NAME);
+      expect(csrfCookie?.value).toEqual(expect.any(String));
+      // Read by the hooks
+      expect(csrfCookie?.httpOnly).toBe(false);
+    });
+
+    it("should require the CSRF token on cookie-authenticated mutations", async () => {
+      const page = await middleware(
+        new NextRequest(`${origin}/widget?token=${await mintDevToken()}`)
+      );
+      const session = page.cookies.get(SESSION_COOKIE_NAME)!.value;
+      const csrfToken = page.cookies.get(CSRF_COOKIE_NAME)!.value;
+
+      /**
+       * Builds a POST carrying the cookies the browser would send
+       */
+      const buildPost = (headers: Record<string, string>) => {
+        const request = new NextRequest(`${origin}/api/batch`, {
+          method: "POST",
+          headers: { origin, ...headers },
+        });
+        request.cookies.set(SESSION_COOKIE_NAME, session);
+        request.cookies.set(CSRF_COOKIE_NAME, csrfToken);
+        return request;
+      };
+
+      const rejected = await middleware(buildPost({}));
+      expect(rejected.status).toBe(403);
+      expect(await rejected.json()).toMatchObject({
+        error: { code: "csrf_failed" },
+      });
+
+      const accepted = await middleware(
+        buildPost({ "x-csrf-token": csrfToken })
+      );
+      expect(accepted.status).toBe(200);
+      expect(accepted.headers.get("x-middleware-next")).toBe("1");
+    });
+  });
+
+  it("should not require a CSRF token when the JWT is sent explicitly", async () => {
+    const token = await mintDevToken();
+
+    const response = await middleware(
+      new NextRequest(`${origin}/api/batch`, {
+        method: "POST",
+        headers: { origin, authorization: `Bearer ${token}` },
+      })
+    );
+
+    expect(response.status).toBe(200);
+  });
+
+  describe("header spoofing", () => {
+    it("should strip a forged JWT context on public routes", async () => {
+      const response = await middleware(
+        new NextRequest(`${origin}/api/health`, {
+          headers: {
+            "x-ampeco-user-id": "1",
+            "x-ampeco-jwt-token": "forged",
+          },
+        })
+      );
+
+      expect(response.headers.get("x-middleware-next")).toBe("1");
+      expect(response.headers.get("x-middleware-override-headers")).not.toMatch(
+        /x-ampeco-/
+      );
+      expect(
+        response.headers.get("x-middleware-request-x-ampeco-jwt-token")
+      ).toBeNull();
+    });
+
+    it("should replace a forged JWT context with the verified one", async () => {
+      const token = await mintDevToken({ userId: 7 });
+
+      const response = await middleware(
+        new NextRequest(`${origin}/api/sessions/v1.0?token=${token}`, {
+          headers: {
+            "x-ampeco-user-id": "1",
+            "x-ampeco-impersonate": "false",
+            "x-ampeco-extra": "forged",
+          },
+        })
+      );
+
+      expect(
+        response.headers.get("x-middleware-request-x-ampeco-user-id")
+      ).toBe("7");
+      expect(
+        response.headers.get("x-middleware-request-x-ampeco-impersonate")
+      ).toBe("true");
+      expect(response.headers.get("x-middleware-override-headers")).not.toMatch(
+        /x-ampeco-extra/
+      );
+    });
+
+    it("should not accept forged headers in place of a token", async () => {
+      const response = await middleware(
+        new NextRequest(`${origin}/api/sessions/v1.0`, {
+          headers: {
+            "x-ampeco-user-id": "1",
+            "x-ampeco-jwt-token": "forged",
+          },
+        })
+      );
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should run on API paths that look like static files", async () => {
+      const matcher = new RegExp(`^${config.matcher[0]}$`);
+      expect(matcher.test("/api/charge-points/v1.0/1.png")).toBe(true);
+      expect(matcher.test("/api/sessions/v1.0/export.css")).toBe(true);
+      expect(matcher.test("/logo.png")).toBe(false);
+      expect(matcher.test("/_next/static/chunks/main.js")).toBe(false);
+
+      const response = await middleware(
+        new NextRequest(`${origin}/api/charge-points/v1.0/1.png`, {
+          headers: {
+            "x-ampeco-user-id": "1",
+            "x-ampeco-jwt-token": "forged",
+          },
+        })
+      );
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  it("should hide dev-only routes while the issuer is disabled", async () => {
+    delete process.env.DEV_JWT_ISSUER;
+
+    const response = await middleware(
+      new NextRequest(`${origin}/api/dev/token`)
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -1,5 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getApiService } from "@/lib/services/api";
+import { getApiService, type HttpMethod } from "@/lib/services/api";
+import { getJwtContext, getRequestId } from "@/lib/auth/get-jwt-context";
+import { matchesIfNoneMatch } from "@/lib/services/response-cache";
+import {
+  ApiRequestError,
+  isCancelledError,
+  toApiErrorEnvelope,
+} from "@/lib/services/api-error";
+import {
+  executeProxyRequest,
+  guardProxyRequest,
+  type ProxyResult,
+} from "@/lib/services/proxy";
+import { IMPERSONATION_CONFIRM_HEADER } from "@/lib/services/impersonation";
+import { createLogger } from "@/lib/utils/logger";
 
 /**
  * Unified API Route Handler
@@ -14,15 +28,162 @@ import { getApiService } from "@/lib/services/api";
  * - GET /api/sessions/v1.0/{id}
  * - GET /api/evses/v2.1
  * - GET /api/evses/v2.1/{id}
- * - And any other AMPECO API endpoint
+ * - And any other AMPECO API endpoint allowed by API_POLICY
+ *   (see lib/config/api-policy.ts)
+ *
+ * Mutations while impersonating follow the impersonation policy
+ * (see lib/services/impersonation.ts).
  */
 
 interface RouteParams {
   path: string[];
 }
 
+const logger = createLogger("api-route");
+
+/**
+ * Builds an error response that preserves the upstream status code
+ * and field errors in a stable envelope
+ */
+function errorResponse(error: unknown, fallbackMessage: string) {
+  const { status, body } = toApiErrorEnvelope(error, fallbackMessage);
+  return NextResponse.json(body, { status });
+}
+
+/**
+ * Logs a failed request. Requests the browser aborted (navigation,
+ * superseded queries) are expected and not logged as errors.
+ */
+async function logFailure(action: string, error: unknown) {
+  const log = logger.child({ requestId: await getRequestId() });
+  if (isCancelledError(error)) {
+    log.info(`Cancelled ${action} (client aborted)`);
+    return;
+  }
+  log.error(`Error ${action}`, { error });
+}
+
+/**
+ * Converts a proxy result into a JSON response, answering 304 when the
+ * browser's cached copy is still current
+ */
+function jsonResponse(request: NextRequest, result: ProxyResult) {
+  if (!result.etag) {
+    return NextResponse.json(result.data, { status: result.status });
+  }
+
+  const headers = {
+    ETag: result.etag,
+    "Cache-Control": "private, no-cache",
+    ...(result.cacheStatus && { "X-Cache": result.cacheStatus }),
+  };
+  if (matchesIfNoneMatch(request.headers.get("if-none-match"), result.etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  return NextResponse.json(result.data, { status: result.status, headers });
+}
+
+/**
+ * Checks if the client confirmed a mutation made while impersonating
+ * (see lib/services/impersonation.ts)
+ */
+function isImpersonationConfirmed(request: NextRequest): boolean {
+  return request.headers.get(IMPERSONATION_CONFIRM_HEADER) === "true";
+}
+
+/**
+ * Forwards a mutation (JSON body for everything but DELETE)
+ */
+async function handleMutation(
+  request: NextRequest,
+  params: Promise<RouteParams>,
+  method: HttpMethod
+) {
+  const { path } = await params;
+  const endpoint = path.join("/");
+  const context = await getJwtContext();
+  const requestId = await getRequestId();
+  const body = method === "DELETE" ? undefined : await readJsonBody(request);
+
+  const result = await executeProxyRequest(
+    {
+      method,
+      endpoint,
+      body,
+      signal: request.signal,
+      requestId,
+      impersonationConfirmed: isImpersonationConfirmed(request),
+    },
+    context
+  );
+  return jsonResponse(request, result);
+}
+
+/**
+ * Parses the JSON request body, rejecting malformed input with 400
+ */
+async function readJsonBody(request: NextRequest): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new ApiRequestError("Request body must be valid JSON", {
+      status: 400,
+    });
+  }
+}
+
+/**
+ * Upstream headers forwarded in stream mode
+ */
+const STREAM_HEADERS = [
+  "content-type",
+  "content-disposition",
+  "content-length",
+  "etag",
+  "last-modified",
+];
+
+/**
+ * Checks if the client explicitly asked for a non-JSON representation
+ * (e.g. Accept: text/csv), in which case the upstream body is streamed
+ */
+function wantsStream(request: NextRequest): boolean {
+  const accept = request.headers.get("accept");
+  return (
+    !!accept &&
+    !accept.includes("application/json") &&
+    !accept.includes("*/*")
+  );
+}
+
+/**
+ * Passes an upstream response body through without buffering
+ */
+function streamResponse(upstream: Response): NextResponse {
+  const headers = new Headers();
+  STREAM_HEADERS.forEach((name) => {
+    const value = upstream.headers.get(name);
+    if (value) {
+      headers.set(name, value);
+    }
+  });
+
+  // fetch decodes compressed bodies, so the upstream length no longer applies
+  if (upstream.headers.has("content-encoding")) {
+    headers.delete("content-length");
+  }
+
+  return new NextResponse(upstream.body, {
+    status: upstream.status,
+    headers,
+  });
+}
+
 /**
  * GET handler - Fetch resources
+ *
+ * Returns JSON by default. When the Accept header asks for a non-JSON
+ * type only, the upstream body is streamed through as-is.
  */
 export async function GET(
   request: NextRequest,
@@ -31,55 +192,53 @@ export async function GET(
   try {
     const { path } = await params;
     const endpoint = path.join("/");
+    const context = await getJwtContext();
+    const requestId = await getRequestId();
 
-    // Debug logging
-    const isDevelopment = process.env.NODE_ENV === "development";
-    if (isDevelopment) {
-      console.log("[Unified API Route: GET]");
-      console.log("  Path segments:", path);
-      console.log("  Endpoint:", endpoint);
-      console.log("  Full URL:", request.nextUrl.toString());
-    }
+    // Forward the query string verbatim (repeated keys, bracketed filters,
+    // leading zeros) minus our own JWT, which must not reach the upstream
+    const queryParams = new URLSearchParams(request.nextUrl.searchParams);
+    queryParams.delete("token");
 
-    const apiService = getApiService();
-    const searchParams = request.nextUrl.searchParams;
-
-    // Convert search params to object
-    const queryParams: Record<string, string | number | boolean> = {};
-    searchParams.forEach((value, key) => {
-      // Try to parse as number or boolean, otherwise keep as string
-      if (value === "true" || value === "false") {
-        queryParams[key] = value === "true";
-      } else if (!isNaN(Number(value)) && value !== "") {
-        queryParams[key] = Number(value);
-      } else {
-        queryParams[key] = value;
-      }
-    });
+    logger.debug("Proxy GET", { requestId, endpoint, query: queryParams });
 
-    if (isDevelopment) {
-      console.log("  Query params:", queryParams);
+    if (wantsStream(request)) {
+      const upstream = await guardProxyRequest(
+        "GET",
+        endpoint,
+        context,
+        (rule) =>
+          getApiService(context?.tenantUrl || undefined).requestStream(
+            endpoint,
+            {
+              method: "GET",
+              params: queryParams,
+              headers: { Accept: request.headers.get("accept")! },
+              signal: request.signal,
+              requestId,
+              metricsEndpoint: rule.pattern,
+            }
+          )
+      );
+      return streamResponse(upstream);
     }
 
-    const response = await apiService.request(endpoint, {
-      method: "GET",
-      params: queryParams,
-    });
-
-    return NextResponse.json(response);
-  } catch (error) {
-    const { path } = await params;
-    const endpoint = path.join("/");
-    console.error(`Error fetching ${endpoint}:`, error);
-    return NextResponse.json(
+    const result = await executeProxyRequest(
       {
-        error:
-          error instanceof Error
-            ? error.message
-            : `Failed to fetch ${endpoint}`,
+        method: "GET",
+        endpoint,
+        params: queryParams,
+        signal: request.signal,
+        requestId,
       },
-      { status: 500 }
+      context
     );
+    return jsonResponse(request, result);
+  } catch (error) {
+    const { path } = await params;
+    const endpoint = path.join("/");
+    await logFailure(`fetching ${endpoint}`, error);
+    return errorResponse(error, `Failed to fetch ${endpoint}`);
   }
 }
 
@@ -91,30 +250,12 @@ export async function POST(
   { params }: { params: Promise<RouteParams> }
 ) {
   try {
-    const { path } = await params;
-    const endpoint = path.join("/");
-    const apiService = getApiService();
-    const body = await request.json();
-
-    const response = await apiService.request(endpoint, {
-      method: "POST",
-      body,
-    });
-
-    return NextResponse.json(response, { status: 201 });
+    return await handleMutation(request, params, "POST");
   } catch (error) {
     const { path } = await params;
     const endpoint = path.join("/");
-    console.error(`Error creating ${endpoint}:`, error);
-    return NextResponse.json(
-      {
-        error:
-          error instanceof Error
-            ? error.message
-            : `Failed to create ${endpoint}`,
-      },
-      { status: 500 }
-    );
+    await logFailure(`creating ${endpoint}`, error);
+    return errorResponse(error, `Failed to create ${endpoint}`);
   }
 }
 
@@ -126,30 +267,12 @@ export async function PATCH(
   { params }: { params: Promise<RouteParams> }
 ) {
   try {
-    const { path } = await params;
-    const endpoint = path.join("/");
-    const apiService = getApiService();
-    const body = await request.json();
-
-    const response = await apiService.request(endpoint, {
-      method: "PATCH",
-      body,
-    });
-
-    return NextResponse.json(response);
+    return await handleMutation(request, params, "PATCH");
   } catch (error) {
     const { path } = await params;
     const endpoint = path.join("/");
-    console.error(`Error updating ${endpoint}:`, error);
-    return NextResponse.json(
-      {
-        error:
-          error instanceof Error
-            ? error.message
-            : `Failed to update ${endpoint}`,
-      },
-      { status: 500 }
-    );
+    await logFailure(`updating ${endpoint}`, error);
+    return errorResponse(error, `Failed to update ${endpoint}`);
   }
 }
 
@@ -161,30 +284,12 @@ export async function PUT(
   { params }: { params: Promise<RouteParams> }
 ) {
   try {
-    const { path } = await params;
-    const endpoint = path.join("/");
-    const apiService = getApiService();
-    const body = await request.json();
-
-    const response = await apiService.request(endpoint, {
-      method: "PUT",
-      body,
-    });
-
-    return NextResponse.json(response);
+    return await handleMutation(request, params, "PUT");
   } catch (error) {
     const { path } = await params;
     const endpoint = path.join("/");
-    console.error(`Error replacing ${endpoint}:`, error);
-    return NextResponse.json(
-      {
-        error:
-          error instanceof Error
-            ? error.message
-            : `Failed to replace ${endpoint}`,
-      },
-      { status: 500 }
-    );
+    await logFailure(`replacing ${endpoint}`, error);
+    return errorResponse(error, `Failed to replace ${endpoint}`);
   }
 }
 
@@ -196,27 +301,11 @@ export async function DELETE(
   { params }: { params: Promise<RouteParams> }
 ) {
   try {
-    const { path } = await params;
-    const endpoint = path.join("/");
-    const apiService = getApiService();
-
-    await apiService.request(endpoint, {
-      method: "DELETE",
-    });
-
-    return NextResponse.json({ success: true });
+    return await handleMutation(request, params, "DELETE");
   } catch (error) {
     const { path } = await params;
     const endpoint = path.join("/");
-    console.error(`Error deleting ${endpoint}:`, error);
-    return NextResponse.json(
-      {
-        error:
-          error instanceof Error
-            ? error.message
-            : `Failed to delete ${endpoint}`,
-      },
-      { status: 500 }
-    );
+    await logFailure(`deleting ${endpoint}`, error);
+    return errorResponse(error, `Failed to delete ${endpoint}`);
   }
 }
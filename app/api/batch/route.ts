@@ -0,0 +1,62 @@
+/**
+ * Batch API Route Handler
+ *
+ * Runs several AMPECO calls in one round trip:
+ *
+ * POST /api/batch
+ * [
+ *   { "endpoint": "/api/sessions/v1.0", "params": { "page": 1 } },
+ *   { "endpoint": "/api/charge-points/v1.0" },
+ *   { "method": "GET", "endpoint": "/api/evses/v2.1" }
+ * ]
+ *
+ * Responds with one `{ status, data }` or `{ status, error }` per item,
+ * in request order.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getJwtContext, getRequestId } from "@/lib/auth/get-jwt-context";
+import {
+  ApiRequestError,
+  isCancelledError,
+  toApiErrorEnvelope,
+} from "@/lib/services/api-error";
+import { executeBatch } from "@/lib/services/batch";
+import { IMPERSONATION_CONFIRM_HEADER } from "@/lib/services/impersonation";
+import { createLogger } from "@/lib/utils/logger";
+
+const logger = createLogger("batch-route");
+
+export async function POST(request: NextRequest) {
+  const requestId = await getRequestId();
+  const log = logger.child({ requestId });
+
+  try {
+    let items: unknown;
+    try {
+      items = await request.json();
+    } catch {
+      throw new ApiRequestError("Request body must be valid JSON", {
+        status: 400,
+      });
+    }
+
+    const context = await getJwtContext();
+    const results = await executeBatch(items, context, {
+      signal: request.signal,
+      requestId,
+      impersonationConfirmed:
+        request.headers.get(IMPERSONATION_CONFIRM_HEADER) === "true",
+    });
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    if (isCancelledError(error)) {
+      log.info("Batch cancelled by client");
+    } else {
+      log.error("Error running batch", { error });
+    }
+    const { status, body } = toApiErrorEnvelope(error, "Failed to run batch");
+    return NextResponse.json(body, { status });
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Development JWKS Endpoint
+ *
+ * Public keys of the development JWT issuer. Only available when
+ * DEV_JWT_ISSUER is enabled outside production; excluded from JWT
+ * authentication.
+ */
+
+import { NextResponse } from "next/server";
+import { getDevJwks, isDevIssuerEnabled } from "@/lib/auth/dev-issuer";
+import { ApiRequestError, toApiErrorEnvelope } from "@/lib/services/api-error";
+
+export async function GET() {
+  if (!isDevIssuerEnabled()) {
+    const { status, body } = toApiErrorEnvelope(
+      new ApiRequestError("Not found", { status: 404 }),
+      "Not found"
+    );
+    return NextResponse.json(body, { status });
+  }
+
+  return NextResponse.json(await getDevJwks(), {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
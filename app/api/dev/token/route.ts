@@ -0,0 +1,82 @@
+/**
+ * Development Token Endpoint
+ *
+ * Mints a token from the development JWT issuer:
+ *
+ * GET /api/dev/token?user_id=7&widget_id=3&resource=charge_point&resource_id=12&impersonate=false&expires_in=600
+ *
+ * `tenant` selects the issuer when several tenants are configured.
+ *
+ * Responds with the token and a widget URL that carries it. Only available
+ * when DEV_JWT_ISSUER is enabled outside production; excluded from JWT
+ * authentication.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  isDevIssuerEnabled,
+  mintDevToken,
+  type DevTokenOptions,
+} from "@/lib/auth/dev-issuer";
+import { findTenant } from "@/lib/config/ampeco";
+import { ApiRequestError, toApiErrorEnvelope } from "@/lib/services/api-error";
+
+/**
+ * Reads an optional integer query parameter
+ */
+function getIntParam(
+  params: URLSearchParams,
+  name: string
+): number | undefined {
+  const value = params.get(name);
+  if (value === null) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new ApiRequestError(`${name} must be an integer`, { status: 400 });
+  }
+  return parsed;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isDevIssuerEnabled()) {
+      throw new ApiRequestError("Not found", { status: 404 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const tenant = params.get("tenant");
+    if (tenant && !findTenant(tenant)) {
+      throw new ApiRequestError(`Unknown tenant: ${tenant}`, { status: 400 });
+    }
+    const impersonate = params.get("impersonate");
+    const options: DevTokenOptions = {
+      userId: getIntParam(params, "user_id"),
+      appId: getIntParam(params, "app_id"),
+      widgetId: getIntParam(params, "widget_id"),
+      widgetName: params.get("widget_name") ?? undefined,
+      resource: params.get("resource") ?? undefined,
+      resourceId: params.get("resource_id") ?? undefined,
+      impersonate: impersonate === null ? undefined : impersonate === "true",
+      tenantUrl: tenant ?? undefined,
+      audience: params.get("audience") ?? request.nextUrl.origin,
+      expiresInSeconds: getIntParam(params, "expires_in"),
+    };
+
+    const token = await mintDevToken(options);
+    const widgetUrl = new URL("/", request.nextUrl.origin);
+    widgetUrl.searchParams.set("token", token);
+
+    return NextResponse.json(
+      { token, widget_url: widgetUrl.toString() },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    const { status, body } = toApiErrorEnvelope(
+      error,
+      "Failed to mint development token"
+    );
+    return NextResponse.json(body, { status });
+  }
+}
@@ -3,11 +3,24 @@
  *
  * Used by deployment platforms to verify the application is running.
  * This endpoint is excluded from JWT authentication.
+ *
+ * `GET /api/health?deep=1` runs the readiness checks instead (same as
+ * `/api/ready`) and responds 503 when the instance is not ready.
  */
 
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { getReadinessReport, toPublicReport } from "@/lib/services/health";
+
+export async function GET(request: NextRequest) {
+  const deep = request.nextUrl.searchParams.get("deep");
+  if (deep === "1" || deep === "true") {
+    const report = await getReadinessReport();
+    return NextResponse.json(toPublicReport(report), {
+      status: report.status === "ready" ? 200 : 503,
+      headers: { "Cache-Control": "no-store" },
+    });
+  }
 
-export async function GET() {
   return NextResponse.json(
     {
       status: "ok",
@@ -0,0 +1,52 @@
+/**
+ * Metrics Endpoint
+ *
+ * Exposes the in-process metrics in the Prometheus text exposition format.
+ * Excluded from JWT authentication; scrapers authenticate with
+ * `Authorization: Bearer <METRICS_TOKEN>`. Disabled (404) when
+ * METRICS_TOKEN is not set.
+ */
+
+import { createHash, timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { ApiRequestError, toApiErrorEnvelope } from "@/lib/services/api-error";
+import { renderMetrics } from "@/lib/services/metrics";
+
+/**
+ * Compares two secrets in constant time
+ */
+function safeEqual(a: string, b: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+export async function GET(request: NextRequest) {
+  const metricsToken = process.env.METRICS_TOKEN;
+  if (!metricsToken) {
+    const { status, body } = toApiErrorEnvelope(
+      new ApiRequestError("Not found", { status: 404 }),
+      "Not found"
+    );
+    return NextResponse.json(body, { status });
+  }
+
+  const authorization = request.headers.get("authorization") ?? "";
+  const [scheme, token] = authorization.split(" ");
+  if (scheme !== "Bearer" || !token || !safeEqual(token, metricsToken)) {
+    const { status, body } = toApiErrorEnvelope(
+      new ApiRequestError("Invalid metrics token", { status: 401 }),
+      "Invalid metrics token"
+    );
+    return NextResponse.json(body, {
+      status,
+      headers: { "WWW-Authenticate": "Bearer" },
+    });
+  }
+
+  return new NextResponse(renderMetrics(), {
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,19 @@
+/**
+ * Readiness Endpoint
+ *
+ * Deep health check for load balancers: validates configuration, the
+ * AMPECO JWKS and (optionally) an upstream probe. Responds 503 when not
+ * ready so traffic is routed elsewhere. Excluded from JWT authentication,
+ * so the report is memoized and carries per-check status only.
+ */
+
+import { NextResponse } from "next/server";
+import { getReadinessReport, toPublicReport } from "@/lib/services/health";
+
+export async function GET() {
+  const report = await getReadinessReport();
+  return NextResponse.json(toPublicReport(report), {
+    status: report.status === "ready" ? 200 : 503,
+    headers: { "Cache-Control": "no-store" },
+  });
+}
@@ -1,22 +1,28 @@
 import type { Metadata } from "next";
 import "./globals.css";
 import "@ampeco/ampeco-ui/dist/style.css";
+import { getWidgetContext } from "@/lib/auth/get-jwt-context";
 import { QueryProvider } from "@/lib/providers/query-provider";
+import { WidgetContextProvider } from "@/lib/providers/widget-context-provider";
 
 export const metadata: Metadata = {
   title: "AMPECO Custom Dashboard Widgets Boilerplate",
   description: "Template for building AMPECO custom widgets",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const widgetContext = await getWidgetContext();
+
   return (
     <html lang="en">
       <body className="antialiased">
-        <QueryProvider>{children}</QueryProvider>
+        <WidgetContextProvider value={widgetContext}>
+          <QueryProvider>{children}</QueryProvider>
+        </WidgetContextProvider>
       </body>
     </html>
   );
@@ -21,4 +21,5 @@ jest.mock("next/navigation", () => ({
 // Mock environment variables
 process.env.AMPECO_BASE_DOMAIN = "demo.charge.ampeco.tech";
 process.env.AMPECO_API_TOKEN = "sk_test_mock_token";
+process.env.LOG_LEVEL = "silent";
 
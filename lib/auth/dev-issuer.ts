@@ -0,0 +1,130 @@
+/**
+ * Development JWT Issuer
+ *
+ * Stand-in for the AMPECO marketplace signer so the whole middleware path
+ * can be exercised locally and in tests. Generates an ES256 key pair per
+ * server process, serves its JWKS at /api/dev/jwks and mints tokens at
+ * /api/dev/token. The verifier only trusts these tokens when
+ * DEV_JWT_ISSUER is enabled, and never in production.
+ */
+
+import {
+  exportJWK,
+  generateKeyPair,
+  SignJWT,
+  type CryptoKey,
+  type JSONWebKeySet,
+} from "jose";
+import { getAmpecoConfig } from "@/lib/config/ampeco";
+
+/**
+ * Key id of the development signing key
+ */
+export const DEV_KEY_ID = "dev-local";
+
+/**
+ * Claims that can be chosen when minting a token
+ */
+export interface DevTokenOptions {
+  userId?: number;
+  appId?: number;
+  widgetId?: number;
+  widgetName?: string;
+  resource?: string;
+  resourceId?: string;
+  impersonate?: boolean;
+  /** Tenant URL used as `iss` (defaults to the default tenant) */
+  tenantUrl?: string;
+  /** Widget origin (`aud`) */
+  audience?: string;
+  /** Lifetime in seconds (negative values mint an expired token) */
+  expiresInSeconds?: number;
+}
+
+/**
+ * Signing key pair and its public JWKS
+ */
+interface DevKeys {
+  privateKey: CryptoKey;
+  jwks: JSONWebKeySet;
+}
+
+const globalStore = globalThis as typeof globalThis & {
+  __ampecoDevIssuerKeys?: Promise<DevKeys>;
+};
+
+/**
+ * Checks if the development issuer is enabled (DEV_JWT_ISSUER=1)
+ */
+export function isDevIssuerEnabled(): boolean {
+  const value = process.env.DEV_JWT_ISSUER?.toLowerCase();
+  return (
+    (value === "1" || value === "true") && process.env.NODE_ENV !== "production"
+  );
+}
+
+/**
+ * Gets (or generates) the key pair
+ *
+ * Kept on globalThis so the middleware and the route handlers sign and
+ * verify with the same key.
+ */
+function getDevKeys(): Promise<DevKeys> {
+  if (!globalStore.__ampecoDevIssuerKeys) {
+    globalStore.__ampecoDevIssuerKeys = (async () => {
+      const { privateKey, publicKey } = await generateKeyPair("ES256", {
+        extractable: true,
+      });
+      const jwk = await exportJWK(publicKey);
+      return {
+        privateKey,
+        jwks: {
+          keys: [{ ...jwk, kid: DEV_KEY_ID, alg: "ES256", use: "sig" }],
+        },
+      };
+    })();
+  }
+  return globalStore.__ampecoDevIssuerKeys;
+}
+
+/**
+ * Gets the public JWKS of the development issuer
+ */
+export async function getDevJwks(): Promise<JSONWebKeySet> {
+  return (await getDevKeys()).jwks;
+}
+
+/**
+ * Mints a token shaped like an AMPECO marketplace JWT
+ * @param options Claims to set (defaults describe an impersonated user 1)
+ * @returns Signed JWT
+ * @throws Error if the development issuer is not enabled
+ */
+export async function mintDevToken(
+  options: DevTokenOptions = {}
+): Promise<string> {
+  if (!isDevIssuerEnabled()) {
+    throw new Error("The development JWT issuer is not enabled");
+  }
+
+  const { privateKey } = await getDevKeys();
+  const now = Math.floor(Date.now() / 1000);
+
+  return new SignJWT({
+    user_id: options.userId ?? 1,
+    app_id: options.appId ?? 1,
+    widget_id: options.widgetId ?? 1,
+    widget_name: options.widgetName ?? "dev-widget",
+    impersonate: options.impersonate ?? true,
+    resource: options.resource ?? "dashboard",
+    ...(options.resourceId !== undefined && {
+      resource_id: options.resourceId,
+    }),
+  })
+    .setProtectedHeader({ alg: "ES256", kid: DEV_KEY_ID, typ: "JWT" })
+    .setIssuer(getAmpecoConfig(options.tenantUrl).urls.tenant)
+    .setAudience(options.audience ?? "http://localhost:3000")
+    .setIssuedAt(now)
+    .setExpirationTime(now + (options.expiresInSeconds ?? 3600))
+    .sign(privateKey);
+}
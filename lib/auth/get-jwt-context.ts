@@ -6,6 +6,7 @@
  */
 
 import { headers } from "next/headers";
+import { REQUEST_ID_HEADER } from "@/lib/utils/logger";
 
 /**
  * JWT Context extracted from request headers
@@ -14,11 +15,21 @@ export interface JwtContext {
   userId: number;
   appId: number;
   widgetId: number;
+  widgetName: string;
   impersonate: boolean;
   jwtToken: string;
   tenantUrl: string;
+  /** Page the widget is placed on (e.g. "dashboard", "charge_point") */
+  resource: string;
+  /** Id of the record shown on that page, if any */
+  resourceId: string | null;
 }
 
+/**
+ * JWT context safe to pass to client components (without the token)
+ */
+export type WidgetContext = Omit<JwtContext, "jwtToken">;
+
 /**
  * Gets JWT context from request headers
  * @returns JWT context or null if not available
@@ -29,9 +40,12 @@ export async function getJwtContext(): Promise<JwtContext | null> {
   const userId = headersList.get("x-ampeco-user-id");
   const appId = headersList.get("x-ampeco-app-id");
   const widgetId = headersList.get("x-ampeco-widget-id");
+  const widgetName = headersList.get("x-ampeco-widget-name");
   const impersonate = headersList.get("x-ampeco-impersonate");
   const jwtToken = headersList.get("x-ampeco-jwt-token");
   const tenantUrl = headersList.get("x-ampeco-tenant-url");
+  const resource = headersList.get("x-ampeco-resource");
+  const resourceId = headersList.get("x-ampeco-resource-id");
 
   if (!userId || !appId || !widgetId || !jwtToken) {
     return null;
@@ -41,9 +55,35 @@ export async function getJwtContext(): Promise<JwtContext | null> {
     userId: parseInt(userId, 10),
     appId: parseInt(appId, 10),
     widgetId: parseInt(widgetId, 10),
+    widgetName: widgetName ? decodeURIComponent(widgetName) : "",
     impersonate: impersonate === "true",
     jwtToken,
     tenantUrl: tenantUrl || "",
+    resource: resource ? decodeURIComponent(resource) : "",
+    resourceId: resourceId ? decodeURIComponent(resourceId) : null,
+  };
+}
+
+/**
+ * Gets the widget context for client components
+ * (see lib/providers/widget-context-provider.tsx)
+ * @returns JWT context without the token, or null if not available
+ */
+export async function getWidgetContext(): Promise<WidgetContext | null> {
+  const context = await getJwtContext();
+  if (!context) {
+    return null;
+  }
+  // Listed field by field so the token can never be passed along
+  return {
+    userId: context.userId,
+    appId: context.appId,
+    widgetId: context.widgetId,
+    widgetName: context.widgetName,
+    impersonate: context.impersonate,
+    tenantUrl: context.tenantUrl,
+    resource: context.resource,
+    resourceId: context.resourceId,
   };
 }
 
@@ -55,3 +95,12 @@ export async function getJwtToken(): Promise<string | null> {
   const context = await getJwtContext();
   return context?.jwtToken || null;
 }
+
+/**
+ * Gets the request id assigned by the middleware
+ * @returns Request id or undefined if not available
+ */
+export async function getRequestId(): Promise<string | undefined> {
+  const headersList = await headers();
+  return headersList.get(REQUEST_ID_HEADER) || undefined;
+}
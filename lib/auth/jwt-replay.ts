@@ -0,0 +1,201 @@
+/**
+ * JWT Replay Protection
+ *
+ * With AMPECO_JWT_REPLAY_PROTECTION enabled, a token can start only one
+ * session: the middleware consumes it once the browser has sent the
+ * session cookie back, and another session with the same token is
+ * rejected. Tokens are tracked by `jti` (or a hash of the token when
+ * AMPECO omits it) until they expire.
+ *
+ * A token whose cookie did not come back (see lib/auth/session.ts) is
+ * recorded as used in the URL instead. It keeps working on later
+ * navigations, since the page keeps carrying it, but can no longer start a
+ * session; a token that started a session is rejected in the URL of
+ * another page load.
+ *
+ * Only page loads are covered. A token sent on API requests (`?token=` or
+ * `Authorization`) is accepted as often as it is sent until it expires, so
+ * the flag requires SESSION_SECRET (enforced by getAmpecoConfig) and is no
+ * substitute for short token lifetimes.
+ *
+ * The default store is in-memory (per instance) and bounded; for
+ * multi-instance deployments, plug in a shared store with setJtiStore().
+ */
+
+import { createHash } from "crypto";
+import {
+  JwtVerificationError,
+  type AmpecoJwtPayload,
+} from "@/lib/auth/jwt-verifier";
+import { getAmpecoConfig } from "@/lib/config/ampeco";
+import { getMetrics } from "@/lib/services/metrics";
+
+/**
+ * How a token was used on a page load: to start a session, or in the URL
+ * of a browser that did not store the session cookie
+ */
+export type JwtUse = "session" | "url";
+
+/**
+ * Storage of used token ids
+ *
+ * `markUsed` must be atomic for shared stores (e.g. Redis
+ * `SET NX PX ... GET`).
+ */
+export interface JtiStore {
+  /**
+   * Gets how a token id was used
+   * @returns The recorded use, or null if the id is not recorded
+   */
+  getUse(id: string): Promise<JwtUse | null>;
+
+  /**
+   * Records how a token id was used, unless it is recorded already, and
+   * expires it after ttlMs
+   * @returns The use recorded before, or null if the id was not recorded
+   */
+  markUsed(id: string, use: JwtUse, ttlMs: number): Promise<JwtUse | null>;
+}
+
+/**
+ * In-memory store (per server instance), holding at most maxEntries ids
+ */
+export class MemoryJtiStore implements JtiStore {
+  private entries = new Map<string, { use: JwtUse; expiresAt: number }>();
+
+  constructor(private readonly maxEntries: number = 10000) {}
+
+  async getUse(id: string): Promise<JwtUse | null> {
+    const entry = this.entries.get(id);
+    return entry && entry.expiresAt > Date.now() ? entry.use : null;
+  }
+
+  async markUsed(
+    id: string,
+    use: JwtUse,
+    ttlMs: number
+  ): Promise<JwtUse | null> {
+    const now = Date.now();
+    const entry = this.entries.get(id);
+    if (entry && entry.expiresAt > now) {
+      return entry.use;
+    }
+
+    this.entries.delete(id);
+    this.evict(now);
+    this.entries.set(id, { use, expiresAt: now + ttlMs });
+    return null;
+  }
+
+  /**
+   * Drops expired ids, then the oldest ones while the store is full
+   */
+  private evict(now: number): void {
+    if (this.entries.size < this.maxEntries) {
+      return;
+    }
+    this.entries.forEach(({ expiresAt }, id) => {
+      if (expiresAt <= now) {
+        this.entries.delete(id);
+      }
+    });
+    const ids = this.entries.keys();
+    while (this.entries.size >= this.maxEntries) {
+      this.entries.delete(ids.next().value!);
+    }
+  }
+}
+
+/**
+ * Store used by checkJwtUse and consumeJwt
+ */
+let jtiStore: JtiStore = new MemoryJtiStore();
+
+/**
+ * Replaces the store of used token ids (e.g. with a shared store so a token
+ * cannot be replayed against another instance)
+ */
+export function setJtiStore(store: JtiStore): void {
+  jtiStore = store;
+}
+
+/**
+ * Gets the store key of a token
+ */
+function getTokenKey(token: string, payload: AmpecoJwtPayload): string {
+  const tokenId =
+    payload.jti ?? createHash("sha256").update(token).digest("base64url");
+  return `${payload.iss}:${tokenId}`;
+}
+
+/**
+ * Rejects a use that conflicts with the earlier one: a token starts at
+ * most one session, and only if it was not used before
+ */
+function assertNotReplayed(
+  payload: AmpecoJwtPayload,
+  previousUse: JwtUse | null,
+  use: JwtUse
+): void {
+  if (
+    previousUse &&
+    (previousUse === "session" || use === "session") &&
+    getAmpecoConfig(payload.iss).jwt.replayProtection
+  ) {
+    getMetrics().jwtFailures.inc({ reason: "replayed" });
+    throw new JwtVerificationError(
+      "JWT token has already been used. Please refresh the page.",
+      "replayed"
+    );
+  }
+}
+
+/**
+ * Checks that a verified token may be used, without recording it
+ * @param token JWT token string
+ * @param payload Verified payload of the token
+ * @param use Intended use
+ * @returns How the token was used before, or null
+ * @throws JwtVerificationError (replayed) if the use conflicts with an
+ * earlier one
+ */
+export async function checkJwtUse(
+  token: string,
+  payload: AmpecoJwtPayload,
+  use: JwtUse
+): Promise<JwtUse | null> {
+  const previousUse = await jtiStore.getUse(getTokenKey(token, payload));
+  assertNotReplayed(payload, previousUse, use);
+  return previousUse;
+}
+
+/**
+ * Records how a verified token was used on a page load
+ *
+ * Uses are recorded even without AMPECO_JWT_REPLAY_PROTECTION, so a token
+ * used in the URL is not exchanged for a cookie again on every navigation.
+ * @param token JWT token string
+ * @param payload Verified payload of the token
+ * @param use How the token is used
+ * @throws JwtVerificationError (replayed) if the use conflicts with an
+ * earlier one
+ */
+export async function consumeJwt(
+  token: string,
+  payload: AmpecoJwtPayload,
+  use: JwtUse
+): Promise<void> {
+  const config = getAmpecoConfig(payload.iss);
+  const expiresAt = payload.exp ?? Math.floor(Date.now() / 1000) + 3600;
+  const ttlMs = Math.max(
+    1000,
+    (expiresAt + config.jwt.clockTolerance) * 1000 - Date.now()
+  );
+
+  const previousUse = await jtiStore.markUsed(
+    getTokenKey(token, payload),
+    use,
+    ttlMs
+  );
+  assertNotReplayed(payload, previousUse, use);
+}
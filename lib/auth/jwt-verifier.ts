@@ -2,12 +2,39 @@
  * JWT Verifier for AMPECO Custom Widget Authentication
  *
  * Verifies JWT tokens issued by AMPECO backend using ES256 algorithm.
- * Supports JWKS (JSON Web Key Set) format for public key retrieval.
+ * Supports JWKS (JSON Web Key Set) format for public key retrieval; the
+ * signing key is selected by the token header `kid`, so AMPECO can rotate
+ * keys without downtime.
+ *
+ * Optional safeguards (see AmpecoConfig.jwt): a maximum token age from
+ * `iat`, a required `nbf` and denylists for revoked widgets and apps.
+ * Replay tracking lives in lib/auth/jwt-replay.ts.
  */
 
-import { jwtVerify, createRemoteJWKSet, JWTPayload } from "jose";
-import NodeCache from "node-cache";
-import { getAmpecoConfig } from "@/lib/config/ampeco";
+import {
+  jwtVerify,
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  customFetch,
+  decodeJwt,
+  decodeProtectedHeader,
+  errors,
+  importJWK,
+  JWTPayload,
+  type JWTVerifyGetKey,
+} from "jose";
+import {
+  DEV_KEY_ID,
+  getDevJwks,
+  isDevIssuerEnabled,
+} from "@/lib/auth/dev-issuer";
+import {
+  findTenant,
+  getAmpecoConfig,
+  type AmpecoConfig,
+} from "@/lib/config/ampeco";
+import { getMetrics } from "@/lib/services/metrics";
+import { createLogger } from "@/lib/utils/logger";
 
 /**
  * JWT Payload structure from AMPECO
@@ -25,91 +52,310 @@ export interface AmpecoJwtPayload extends JWTPayload {
 }
 
 /**
- * Cache for public keys (1 hour TTL)
+ * Why a token was rejected (used for metrics and logs)
  */
-const publicKeyCache = new NodeCache({ stdTTL: 3600, checkperiod: 600 });
+export type JwtFailureReason =
+  | "missing_token"
+  | "expired"
+  | "invalid_signature"
+  | "invalid_issuer"
+  | "invalid_audience"
+  | "invalid_claims"
+  | "not_yet_valid"
+  | "too_old"
+  | "replayed"
+  | "revoked"
+  | "malformed"
+  | "unknown_key"
+  | "jwks_unavailable"
+  | "unknown";
 
 /**
- * Fetches public key from AMPECO API
- * @param publicKeyUrl URL to fetch public key from
- * @returns JWKS endpoint URL for jose library
+ * Error thrown when a JWT is rejected
  */
-async function getPublicKeyUrl(
-  publicKeyUrl: string,
-  apiToken: string
-): Promise<string> {
-  // Check cache first
-  const cached = publicKeyCache.get<string>(publicKeyUrl);
-  if (cached) {
-    return cached;
+export class JwtVerificationError extends Error {
+  readonly reason: JwtFailureReason;
+
+  constructor(message: string, reason: JwtFailureReason) {
+    super(message);
+    this.name = "JwtVerificationError";
+    this.reason = reason;
   }
+}
 
-  // Fetch from API
-  try {
-    const response = await fetch(publicKeyUrl, {
-      method: "GET",
-      headers: {
-        Accept: "application/json",
-        Authorization: `Bearer ${apiToken}`,
-      },
-    });
+/**
+ * JWK entry of the AMPECO JWKS
+ */
+type JWK = { kid?: string; alg?: string; [key: string]: unknown };
+
+/**
+ * Key set that resolves the signing key by the token header `kid`
+ */
+type KeySet = ReturnType<typeof createRemoteJWKSet>;
+
+const logger = createLogger("jwt-verifier");
+
+/**
+ * JWKS refresh settings
+ *
+ * Keys are reused for cacheMaxAge. A token with an unknown `kid` (e.g.
+ * right after AMPECO rotates its key) triggers one refetch, at most once
+ * per cooldownDuration, so bogus `kid`s cannot flood the JWKS endpoint.
+ */
+const JWKS_OPTIONS = {
+  cacheMaxAge: 10 * 60 * 1000,
+  cooldownDuration: 30 * 1000,
+  timeoutDuration: 5000,
+};
+
+/**
+ * Long-lived key sets by JWKS URL (one per tenant)
+ */
+const keySets = new Map<string, KeySet>();
 
+/**
+ * Fetches the JWKS for jose, recording the result and mapping failures
+ * to JwtVerificationError
+ */
+async function fetchJwks(url: string, init: RequestInit): Promise<Response> {
+  try {
+    const response = await fetch(url, init);
     if (!response.ok) {
       throw new Error(
         `Failed to fetch public key: ${response.status} ${response.statusText}`
       );
     }
+    getMetrics().jwksFetches.inc({ result: "success" });
+    return response;
+  } catch (error) {
+    getMetrics().jwksFetches.inc({ result: "failure" });
+    throw new JwtVerificationError(
+      `Public key fetch failed: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+      "jwks_unavailable"
+    );
+  }
+}
 
-    const jwks = await response.json();
+/**
+ * Gets the key set of a tenant, creating it on first use
+ * @param publicKeyUrl JWKS URL of the tenant
+ * @param apiToken AMPECO API token (the JWKS endpoint requires it)
+ */
+function getKeySet(publicKeyUrl: string, apiToken: string): KeySet {
+  let keySet = keySets.get(publicKeyUrl);
+  if (!keySet) {
+    keySet = createRemoteJWKSet(new URL(publicKeyUrl), {
+      ...JWKS_OPTIONS,
+      headers: { Authorization: `Bearer ${apiToken}` },
+      [customFetch]: fetchJwks,
+    });
+    keySets.set(publicKeyUrl, keySet);
+  }
+  return keySet;
+}
 
-    // Validate JWKS format
-    if (!jwks.keys || !Array.isArray(jwks.keys)) {
-      throw new Error("Invalid JWKS format: missing keys array");
-    }
+/**
+ * Fetches the JWKS, bypassing the key set cache, and checks that its
+ * signing keys can be imported (used by the readiness check)
+ * @param signal Aborts the fetch
+ * @throws Error if no usable key is available
+ */
+export async function checkPublicKey(signal?: AbortSignal): Promise<void> {
+  const config = getAmpecoConfig();
+  const response = await fetch(config.urls.publicKey, {
+    method: "GET",
+    headers: {
+      Accept: "application/json",
+      Authorization: `Bearer ${config.apiToken}`,
+    },
+    signal,
+  });
 
-    // Define a type for JWK to avoid 'any'
-    type JWK = { kid?: string; alg?: string };
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch public key: ${response.status} ${response.statusText}`
+    );
+  }
 
-    // Find key with kid="1" and alg="ES256"
-    const key = jwks.keys.find((k: JWK) => k.kid === "1" && k.alg === "ES256");
+  const jwks = await response.json();
 
-    if (!key) {
-      throw new Error("No matching key found in JWKS (kid=1, alg=ES256)");
-    }
+  // Validate JWKS format
+  if (!jwks.keys || !Array.isArray(jwks.keys)) {
+    throw new Error("Invalid JWKS format: missing keys array");
+  }
 
-    // Cache the URL (jose library will handle caching internally)
-    publicKeyCache.set(publicKeyUrl, publicKeyUrl);
+  const keys = jwks.keys.filter((k: JWK) => k.alg === config.jwt.algorithm);
+  if (keys.length === 0) {
+    throw new Error(`No ${config.jwt.algorithm} key found in JWKS`);
+  }
 
-    return publicKeyUrl;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Public key fetch failed: ${error.message}`);
-    }
-    throw error;
+  await Promise.all(
+    keys.map((key: JWK) => importJWK(key, config.jwt.algorithm))
+  );
+}
+
+/**
+ * Checks if a token was signed by the development issuer, which is only
+ * trusted while DEV_JWT_ISSUER is enabled
+ */
+function isDevIssuerToken(token: string): boolean {
+  if (!isDevIssuerEnabled()) {
+    return false;
+  }
+  try {
+    return decodeProtectedHeader(token).kid === DEV_KEY_ID;
+  } catch {
+    return false;
   }
 }
 
+/**
+ * Gets the configuration of the tenant named by the (not yet verified)
+ * `iss` claim; the signature is then checked against that tenant's keys
+ * @throws JwtVerificationError if the token is unreadable or the issuer
+ * is not a configured tenant
+ */
+function getIssuerConfig(token: string): AmpecoConfig {
+  let issuer: string | undefined;
+  try {
+    issuer = decodeJwt(token).iss;
+  } catch {
+    throw new JwtVerificationError("Malformed JWT token", "malformed");
+  }
+
+  if (!issuer || !findTenant(issuer)) {
+    throw new JwtVerificationError(
+      `Invalid issuer: ${issuer ?? "(none)"} is not a configured tenant`,
+      "invalid_issuer"
+    );
+  }
+  return getAmpecoConfig(issuer);
+}
+
+/**
+ * Checks if an audience matches an allowed audience, where `*` stands for
+ * one part of a host name or a port (e.g. `https://widget-*.vercel.app`)
+ */
+function matchesAudience(allowed: string, audience: string): boolean {
+  const pattern = allowed
+    .split("*")
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("[a-z0-9-]+");
+  return new RegExp(`^${pattern}$`, "i").test(audience.replace(/\/+$/, ""));
+}
+
+/**
+ * Validates the token audience against AMPECO_JWT_AUDIENCES, or the
+ * expected audience when none are configured
+ * @throws JwtVerificationError (invalid_audience) if no audience matches,
+ * unless DEV_ALLOW_ANY_AUDIENCE is set
+ */
+function validateAudience(
+  payload: AmpecoJwtPayload,
+  config: AmpecoConfig,
+  expectedAudience?: string
+): void {
+  const allowed =
+    config.jwt.audiences.length > 0
+      ? config.jwt.audiences
+      : expectedAudience
+        ? [expectedAudience]
+        : [];
+  const audiences = (
+    Array.isArray(payload.aud) ? payload.aud : [payload.aud]
+  ).filter((audience): audience is string => typeof audience === "string");
+
+  if (
+    audiences.some((audience) =>
+      allowed.some((entry) => matchesAudience(entry, audience))
+    )
+  ) {
+    return;
+  }
+
+  const message =
+    allowed.length === 0
+      ? "Invalid audience: no allowed audience configured (set AMPECO_JWT_AUDIENCES)"
+      : `Invalid audience: expected ${allowed.join(", ")}, got ${JSON.stringify(
+          payload.aud
+        )}`;
+
+  if (config.jwt.allowAnyAudience) {
+    logger.warn("Audience check bypassed by DEV_ALLOW_ANY_AUDIENCE", {
+      reason: message,
+    });
+    return;
+  }
+  throw new JwtVerificationError(message, "invalid_audience");
+}
+
+/**
+ * Extra check for revoked tokens (see setJwtDenylist)
+ * @returns true to reject the token
+ */
+export type JwtDenylistHook = (
+  payload: AmpecoJwtPayload
+) => boolean | Promise<boolean>;
+
+let denylistHook: JwtDenylistHook | null = null;
+
+/**
+ * Registers a check for revoked widgets, apps or users, consulted after
+ * AMPECO_JWT_DENY_WIDGET_IDS and AMPECO_JWT_DENY_APP_IDS
+ *
+ * @example
+ * ```ts
+ * setJwtDenylist(async (payload) => revokedWidgets.has(payload.widget_id));
+ * ```
+ */
+export function setJwtDenylist(hook: JwtDenylistHook | null): void {
+  denylistHook = hook;
+}
+
+/**
+ * Checks a verified payload against the configured and registered denylists
+ */
+async function isDenied(
+  payload: AmpecoJwtPayload,
+  config: AmpecoConfig
+): Promise<boolean> {
+  if (
+    config.jwt.deniedWidgetIds.includes(payload.widget_id) ||
+    config.jwt.deniedAppIds.includes(payload.app_id)
+  ) {
+    return true;
+  }
+  return denylistHook ? denylistHook(payload) : false;
+}
+
 /**
  * Verifies JWT token and extracts payload
  * @param token JWT token string
- * @param expectedAudience Expected audience (widget domain)
+ * @param expectedAudience Expected audience (the widget's own origin), used
+ * when AMPECO_JWT_AUDIENCES is not set
  * @returns Decoded JWT payload
- * @throws Error if token is invalid, expired, or verification fails
+ * @throws JwtVerificationError if token is invalid, expired, or verification fails
  */
 export async function verifyJwt(
   token: string,
   expectedAudience?: string
 ): Promise<AmpecoJwtPayload> {
-  const config = getAmpecoConfig();
-  const publicKeyUrl = await getPublicKeyUrl(
-    config.urls.publicKey,
-    config.apiToken
-  );
+  try {
+    const config = getIssuerConfig(token);
 
-  // Create remote JWK set (jose handles caching)
-  const JWKS = createRemoteJWKSet(new URL(publicKeyUrl));
+    let JWKS: JWTVerifyGetKey;
+    if (isDevIssuerToken(token)) {
+      JWKS = createLocalJWKSet(await getDevJwks());
+    } else {
+      const keySet = getKeySet(config.urls.publicKey, config.apiToken);
+      if (keySet.fresh) {
+        getMetrics().jwksCacheHits.inc();
+      }
+      JWKS = keySet;
+    }
 
-  try {
     // Verify token - don't validate audience in jwtVerify, we'll do it manually
     // This allows us to see the actual audience value even if it doesn't match
     const { payload } = await jwtVerify(token, JWKS, {
@@ -117,6 +363,8 @@ export async function verifyJwt(
       issuer: config.urls.tenant,
       // Don't pass audience here - validate manually after to get better error messages
       clockTolerance: config.jwt.clockTolerance,
+      maxTokenAge: config.jwt.maxAgeSeconds,
+      requiredClaims: config.jwt.requireNbf ? ["nbf"] : [],
     });
 
     // Type assertion with validation
@@ -128,55 +376,98 @@ export async function verifyJwt(
       !ampecoPayload.app_id ||
       !ampecoPayload.widget_id
     ) {
-      throw new Error(
-        "Missing required JWT claims (user_id, app_id, widget_id)"
+      throw new JwtVerificationError(
+        "Missing required JWT claims (user_id, app_id, widget_id)",
+        "invalid_claims"
       );
     }
 
     // Validate issuer matches expected tenant
     if (ampecoPayload.iss !== config.urls.tenant) {
-      throw new Error(
-        `Invalid issuer: expected ${config.urls.tenant}, got ${ampecoPayload.iss}`
+      throw new JwtVerificationError(
+        `Invalid issuer: expected ${config.urls.tenant}, got ${ampecoPayload.iss}`,
+        "invalid_issuer"
       );
     }
 
-    // Validate audience if provided
-    // Note: In development (localhost), we allow any audience to support local testing
-    // In production, audience must match exactly
-    if (expectedAudience) {
-      const audiences = Array.isArray(ampecoPayload.aud)
-        ? ampecoPayload.aud
-        : [ampecoPayload.aud];
-
-      // Allow localhost/127.0.0.1 in development to bypass strict audience validation
-      const isLocalhost =
-        expectedAudience.includes("localhost") ||
-        expectedAudience.includes("127.0.0.1") ||
-        process.env.NODE_ENV === "development";
-
-      // In production, require exact match. In development/localhost, allow any valid audience
-      if (!audiences.includes(expectedAudience) && !isLocalhost) {
-        throw new Error(
-          `Invalid audience: expected ${expectedAudience}, got ${JSON.stringify(
-            ampecoPayload.aud
-          )}`
-        );
-      }
+    validateAudience(ampecoPayload, config, expectedAudience);
+
+    if (await isDenied(ampecoPayload, config)) {
+      throw new JwtVerificationError(
+        "This widget has been revoked. Please contact your administrator.",
+        "revoked"
+      );
     }
 
     return ampecoPayload;
   } catch (error) {
-    if (error instanceof Error) {
-      // Provide user-friendly error messages
-      if (error.message.includes("expired")) {
-        throw new Error("JWT token has expired. Please refresh the page.");
+    const failure = toVerificationError(error);
+    getMetrics().jwtFailures.inc({ reason: failure.reason });
+    throw failure;
+  }
+}
+
+/**
+ * Maps jose errors to a JwtVerificationError with a user-friendly message
+ */
+function toVerificationError(error: unknown): JwtVerificationError {
+  if (error instanceof JwtVerificationError) {
+    return error;
+  }
+
+  const { code, claim, reason } = (error ?? {}) as {
+    code?: string;
+    claim?: string;
+    reason?: string;
+  };
+  // Only jose messages are passed on; others (e.g. a broken tenant
+  // registry) may carry configuration details
+  const message =
+    error instanceof errors.JOSEError
+      ? `JWT verification failed: ${error.message}`
+      : "JWT verification failed";
+
+  switch (code) {
+    case "ERR_JWT_EXPIRED":
+      if (claim === "iat") {
+        return new JwtVerificationError(
+          "JWT token is too old. Please refresh the page.",
+          "too_old"
+        );
       }
-      if (error.message.includes("signature")) {
-        throw new Error("Invalid JWT signature. Please check configuration.");
+      return new JwtVerificationError(
+        "JWT token has expired. Please refresh the page.",
+        "expired"
+      );
+    case "ERR_JWS_SIGNATURE_VERIFICATION_FAILED":
+      return new JwtVerificationError(
+        "Invalid JWT signature. Please check configuration.",
+        "invalid_signature"
+      );
+    case "ERR_JWT_CLAIM_VALIDATION_FAILED":
+      if (claim === "nbf" && reason === "check_failed") {
+        return new JwtVerificationError(
+          "JWT token is not valid yet. Please check the server clock.",
+          "not_yet_valid"
+        );
       }
-      throw new Error(`JWT verification failed: ${error.message}`);
-    }
-    throw error;
+      return new JwtVerificationError(
+        message,
+        claim === "iss" ? "invalid_issuer" : "invalid_claims"
+      );
+    case "ERR_JWKS_NO_MATCHING_KEY":
+    case "ERR_JWKS_MULTIPLE_MATCHING_KEYS":
+      return new JwtVerificationError(message, "unknown_key");
+    case "ERR_JWKS_INVALID":
+    case "ERR_JWKS_TIMEOUT":
+      return new JwtVerificationError(message, "jwks_unavailable");
+    case "ERR_JWS_INVALID":
+    case "ERR_JWT_INVALID":
+    case "ERR_JOSE_ALG_NOT_ALLOWED":
+    case "ERR_JOSE_NOT_SUPPORTED":
+      return new JwtVerificationError(message, "malformed");
+    default:
+      return new JwtVerificationError(message, "unknown");
   }
 }
 
@@ -0,0 +1,145 @@
+/**
+ * Session Cookie
+ *
+ * Replaces the `?token=` URL parameter after the first request: the
+ * middleware verifies the URL token, stores it in an encrypted httpOnly
+ * cookie and redirects to the same URL without the token, so the JWT no
+ * longer leaks into logs, browser history or Referer headers.
+ *
+ * The token is only dropped once the browser has sent the cookie back: the
+ * first redirect keeps the token and adds SESSION_CHECK_PARAM. If the
+ * cookie is missing on that request (e.g. Safari rejects partitioned
+ * cookies in third-party iframes), the page is served with the URL token
+ * as before, and later page loads with that token are served without
+ * another redirect (see lib/auth/jwt-replay.ts).
+ *
+ * The cookie is `SameSite=None; Secure; Partitioned` (CHIPS) so it works
+ * inside the AMPECO iframe on a third-party site. Its content is the
+ * AMPECO JWT encrypted with SESSION_SECRET (JWE, A256GCM) and it expires
+ * with the JWT.
+ *
+ * Environment:
+ * - SESSION_SECRET: at least 32 characters; when unset, no cookie is
+ *   issued and widgets keep authenticating with the URL token
+ */
+
+import { createHash } from "crypto";
+import { EncryptJWT, jwtDecrypt } from "jose";
+import type { NextResponse } from "next/server";
+
+/**
+ * Name of the session cookie (`__Host-` binds it to this host and path /)
+ */
+export const SESSION_COOKIE_NAME = "__Host-ampeco_session";
+
+/**
+ * Query parameter marking the redirect that checks the cookie was stored
+ */
+export const SESSION_CHECK_PARAM = "session_check";
+
+const MIN_SECRET_LENGTH = 32;
+
+/**
+ * Gets the key derived from SESSION_SECRET
+ * @returns 256-bit key, or null if sessions are disabled
+ * @throws Error if SESSION_SECRET is too short
+ */
+function getSessionKey(): Uint8Array | null {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    return null;
+  }
+  if (secret.length < MIN_SECRET_LENGTH) {
+    throw new Error(
+      `SESSION_SECRET must be at least ${MIN_SECRET_LENGTH} characters`
+    );
+  }
+  return createHash("sha256").update(secret).digest();
+}
+
+/**
+ * Checks if session cookies are enabled (SESSION_SECRET is set)
+ */
+export function isSessionEnabled(): boolean {
+  return !!process.env.SESSION_SECRET;
+}
+
+/**
+ * Encrypts a verified JWT into a session cookie value
+ * @param jwtToken Verified AMPECO JWT
+ * @param expiresAt JWT expiry in seconds since the epoch
+ */
+export async function sealSession(
+  jwtToken: string,
+  expiresAt: number
+): Promise<string> {
+  const key = getSessionKey();
+  if (!key) {
+    throw new Error("Session cookies are disabled (SESSION_SECRET is unset)");
+  }
+
+  return new EncryptJWT({ token: jwtToken })
+    .setProtectedHeader({ alg: "dir", enc: "A256GCM" })
+    .setIssuedAt()
+    .setExpirationTime(expiresAt)
+    .encrypt(key);
+}
+
+/**
+ * Decrypts a session cookie value
+ * @param value Cookie value
+ * @returns The stored JWT, or null if the cookie is invalid, expired or
+ * sessions are disabled
+ */
+export async function openSession(value: string): Promise<string | null> {
+  const key = getSessionKey();
+  if (!key) {
+    return null;
+  }
+
+  try {
+    const { payload } = await jwtDecrypt(value, key);
+    return typeof payload.token === "string" ? payload.token : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sets the session cookie on a response
+ * @param response Response to add the cookie to
+ * @param jwtToken Verified AMPECO JWT
+ * @param expiresAt JWT expiry in seconds since the epoch
+ */
+export async function setSessionCookie(
+  response: NextResponse,
+  jwtToken: string,
+  expiresAt: number
+): Promise<void> {
+  response.cookies.set(
+    SESSION_COOKIE_NAME,
+    await sealSession(jwtToken, expiresAt),
+    {
+      httpOnly: true,
+      secure: true,
+      sameSite: "none",
+      partitioned: true,
+      path: "/",
+      maxAge: Math.max(0, expiresAt - Math.floor(Date.now() / 1000)),
+    }
+  );
+}
+
+/**
+ * Removes the session cookie (e.g. after its JWT was rejected)
+ */
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE_NAME, "", {
+    httpOnly: true,
+    secure: true,
+    sameSite: "none",
+    partitioned: true,
+    path: "/",
+    maxAge: 0,
+  });
+}
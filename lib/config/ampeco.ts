@@ -5,7 +5,13 @@
  * including URL construction and JWT settings.
  */
 
-interface AmpecoConfig {
+import {
+  getTenantRegistry,
+  normalizeTenantDomain,
+  type TenantEntry,
+} from "@/lib/config/tenants";
+
+export interface AmpecoConfig {
   baseDomain: string;
   apiToken: string;
   urls: {
@@ -16,13 +22,79 @@ interface AmpecoConfig {
   jwt: {
     algorithm: "ES256";
     clockTolerance: number;
+    /** Allowed `aud` values; `*` matches part of a host name or a port */
+    audiences: string[];
+    /** Accept any audience (DEV_ALLOW_ANY_AUDIENCE, never in production) */
+    allowAnyAudience: boolean;
+    /** Maximum token age from `iat`, regardless of `exp` (off if unset) */
+    maxAgeSeconds?: number;
+    /** Reject tokens without an `nbf` claim */
+    requireNbf: boolean;
+    /** Let each token start only one session (see lib/auth/jwt-replay.ts) */
+    replayProtection: boolean;
+    /** Revoked widgets and apps, rejected even with a valid signature */
+    deniedWidgetIds: number[];
+    deniedAppIds: number[];
+  };
+  api: {
+    timeoutMs: number;
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    maxRetryAfterMs: number;
+  };
+  fetchAll: {
+    pageSize: number;
+    concurrency: number;
+    maxItems: number;
+    maxPages: number;
+  };
+  mock: {
+    enabled: boolean;
   };
 }
 
+/**
+ * Domain and token used in mock mode when none are configured
+ */
+const MOCK_DEFAULTS = {
+  AMPECO_BASE_DOMAIN: "mock.ampeco.local",
+  AMPECO_API_TOKEN: "mock_api_token",
+};
+
+/**
+ * Checks if the offline mock backend is enabled (AMPECO_MOCK=1)
+ */
+export function isMockMode(): boolean {
+  const value = process.env.AMPECO_MOCK?.toLowerCase();
+  return value === "1" || value === "true";
+}
+
 /**
  * Validates required environment variables
  */
 function validateEnv(): void {
+  // Replay protection only covers the session cookie exchange, so without
+  // sessions it would silently do nothing
+  if (
+    getFlagEnv("AMPECO_JWT_REPLAY_PROTECTION") &&
+    !process.env.SESSION_SECRET
+  ) {
+    throw new Error("AMPECO_JWT_REPLAY_PROTECTION requires SESSION_SECRET");
+  }
+
+  if (isMockMode()) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("AMPECO_MOCK must not be enabled in production");
+    }
+    return;
+  }
+
+  // A tenant registry replaces the single-tenant variables
+  if (getTenantRegistry()) {
+    return;
+  }
+
   const required = ["AMPECO_BASE_DOMAIN", "AMPECO_API_TOKEN"];
   const missing = required.filter((key) => !process.env[key]);
 
@@ -34,29 +106,120 @@ function validateEnv(): void {
 }
 
 /**
- * Normalizes domain by removing protocol if present
- * @param domain Domain string (with or without protocol)
- * @returns Domain without protocol
+ * Gets every configured tenant
+ *
+ * The tenant from AMPECO_BASE_DOMAIN/AMPECO_API_TOKEN (or the mock tenant)
+ * comes first and is the default; the rest come from the tenant registry.
+ * @throws Error if no tenant is configured
  */
-function normalizeDomain(domain: string): string {
-  // Remove https:// or http:// if present
-  return domain.replace(/^https?:\/\//, "").trim();
+export function getTenants(): TenantEntry[] {
+  validateEnv();
+
+  const mock = isMockMode();
+  const tenants = [...(getTenantRegistry() ?? [])];
+  const rawDomain =
+    process.env.AMPECO_BASE_DOMAIN ||
+    (mock && tenants.length === 0 ? MOCK_DEFAULTS.AMPECO_BASE_DOMAIN : "");
+  const apiToken =
+    process.env.AMPECO_API_TOKEN ||
+    (mock ? MOCK_DEFAULTS.AMPECO_API_TOKEN : "");
+
+  if (rawDomain) {
+    const domain = normalizeTenantDomain(rawDomain);
+    const index = tenants.findIndex((tenant) => tenant.domain === domain);
+    if (index !== -1) {
+      tenants.unshift(...tenants.splice(index, 1));
+    } else if (apiToken) {
+      tenants.unshift({ domain, apiToken });
+    }
+  }
+
+  if (tenants.length === 0) {
+    throw new Error("No AMPECO tenant is configured");
+  }
+  return tenants;
+}
+
+/**
+ * Finds a configured tenant
+ * @param tenantUrl Tenant URL or domain (e.g. the JWT `iss`)
+ * @returns The tenant, or null if it is not configured
+ */
+export function findTenant(tenantUrl: string): TenantEntry | null {
+  const domain = normalizeTenantDomain(tenantUrl);
+  return getTenants().find((tenant) => tenant.domain === domain) ?? null;
+}
+
+/**
+ * Reads the allowed JWT audiences from AMPECO_JWT_AUDIENCES
+ * (comma-separated, e.g. `https://widget.example.com,https://widget-*.vercel.app`)
+ */
+function getAllowedAudiences(): string[] {
+  return (process.env.AMPECO_JWT_AUDIENCES ?? "")
+    .split(",")
+    .map((audience) => audience.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+}
+
+/**
+ * Checks if the JWT audience check is bypassed (DEV_ALLOW_ANY_AUDIENCE=1,
+ * ignored in production)
+ */
+function isAudienceBypassEnabled(): boolean {
+  const value = process.env.DEV_ALLOW_ANY_AUDIENCE?.toLowerCase();
+  return (
+    (value === "1" || value === "true") && process.env.NODE_ENV !== "production"
+  );
+}
+
+/**
+ * Reads an optional on/off environment variable ("1" or "true")
+ * @param key Environment variable name
+ */
+function getFlagEnv(key: string): boolean {
+  const value = process.env[key]?.toLowerCase();
+  return value === "1" || value === "true";
+}
+
+/**
+ * Reads a comma-separated list of ids
+ * @param key Environment variable name
+ */
+function getIdListEnv(key: string): number[] {
+  return (process.env[key] ?? "")
+    .split(",")
+    .map((id) => Number(id.trim()))
+    .filter((id) => Number.isInteger(id) && id > 0);
+}
+
+/**
+ * Reads an optional numeric environment variable
+ * @param key Environment variable name
+ * @param fallback Value used when the variable is unset or invalid
+ */
+function getNumberEnv(key: string, fallback: number): number {
+  const value = Number(process.env[key]);
+  return process.env[key] && !isNaN(value) ? value : fallback;
 }
 
 /**
  * Gets AMPECO configuration from environment variables
+ * @param tenantUrl Tenant URL or domain (e.g. the JWT `iss`); defaults to
+ * the default tenant
  * @returns AmpecoConfig object with URLs and settings
+ * @throws Error if the tenant is not configured
  */
-export function getAmpecoConfig(): AmpecoConfig {
-  validateEnv();
+export function getAmpecoConfig(tenantUrl?: string): AmpecoConfig {
+  const tenant = tenantUrl ? findTenant(tenantUrl) : getTenants()[0];
+  if (!tenant) {
+    throw new Error(`Unknown AMPECO tenant: ${tenantUrl}`);
+  }
 
-  const rawDomain = process.env.AMPECO_BASE_DOMAIN!;
-  const baseDomain = normalizeDomain(rawDomain);
-  const apiToken = process.env.AMPECO_API_TOKEN!;
+  const baseDomain = tenant.domain;
 
   return {
     baseDomain,
-    apiToken,
+    apiToken: tenant.apiToken,
     urls: {
       publicKey: `https://${baseDomain}/api/v1/marketplace/public-key`,
       apiBase: `https://${baseDomain}/public-api/resources`,
@@ -65,6 +228,31 @@ export function getAmpecoConfig(): AmpecoConfig {
     jwt: {
       algorithm: "ES256",
       clockTolerance: 30, // seconds
+      audiences: getAllowedAudiences(),
+      allowAnyAudience: isAudienceBypassEnabled(),
+      maxAgeSeconds: getNumberEnv("AMPECO_JWT_MAX_AGE_SECONDS", 0) || undefined,
+      requireNbf: getFlagEnv("AMPECO_JWT_REQUIRE_NBF"),
+      replayProtection: getFlagEnv("AMPECO_JWT_REPLAY_PROTECTION"),
+      deniedWidgetIds: getIdListEnv("AMPECO_JWT_DENY_WIDGET_IDS"),
+      deniedAppIds: getIdListEnv("AMPECO_JWT_DENY_APP_IDS"),
+    },
+    api: {
+      timeoutMs:
+        tenant.timeoutMs ?? getNumberEnv("AMPECO_API_TIMEOUT_MS", 10000),
+      maxRetries:
+        tenant.maxRetries ?? getNumberEnv("AMPECO_API_MAX_RETRIES", 2),
+      baseDelayMs: 200,
+      maxDelayMs: 5000,
+      maxRetryAfterMs: 10000,
+    },
+    fetchAll: {
+      pageSize: 100,
+      concurrency: 3,
+      maxItems: getNumberEnv("AMPECO_FETCH_ALL_MAX_ITEMS", 10000),
+      maxPages: getNumberEnv("AMPECO_FETCH_ALL_MAX_PAGES", 100),
+    },
+    mock: {
+      enabled: isMockMode(),
     },
   };
 }
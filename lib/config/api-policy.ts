@@ -0,0 +1,198 @@
+/**
+ * API Proxy Policy
+ *
+ * Declarative allowlist of AMPECO endpoints and methods that widgets may
+ * call through the catch-all proxy. Every proxied request is made with the
+ * privileged AMPECO_API_TOKEN, so anything not listed here is rejected
+ * with 403 before it reaches the upstream.
+ */
+
+import type { HttpMethod } from "@/lib/services/api";
+import type { ImpersonationMode } from "@/lib/services/impersonation";
+
+/**
+ * A single allowlist entry
+ *
+ * Pattern segments:
+ * - `{version}` matches one of `versions`
+ * - `*` matches exactly one segment (e.g. a resource id)
+ * - `**` (last segment only) matches zero or more segments
+ * - anything else must match literally
+ */
+export interface ApiPolicyRule {
+  pattern: string;
+  methods: HttpMethod[];
+  versions?: string[];
+  /** Opt-in per-user server cache for GET responses */
+  cache?: {
+    ttlSeconds: number;
+  };
+  /** Restrict the rule to specific widgets (from the JWT) */
+  widgets?: {
+    ids?: number[];
+    names?: string[];
+  };
+  /**
+   * Mutations while impersonating (overrides AMPECO_IMPERSONATION_POLICY,
+   * see lib/services/impersonation.ts)
+   */
+  impersonation?: ImpersonationMode;
+}
+
+/**
+ * Identity and target of a proxied request
+ */
+export interface ApiPolicyRequest {
+  method: HttpMethod;
+  endpoint: string;
+  widgetId?: number;
+  widgetName?: string;
+}
+
+/**
+ * Policy decision
+ */
+export type ApiPolicyDecision =
+  | { allowed: true; rule: ApiPolicyRule }
+  | { allowed: false; reason: string };
+
+/**
+ * Default policy: read-only access to the resources the boilerplate uses.
+ * Add rules here to allow more endpoints or mutations, e.g.
+ * `{ pattern: "charge-points/{version}/*", methods: ["PATCH"], versions: ["v1.0"] }`
+ * Add `cache: { ttlSeconds: 30 }` to a GET rule to cache its responses.
+ */
+export const API_POLICY: ApiPolicyRule[] = [
+  {
+    pattern: "charge-points/{version}/**",
+    methods: ["GET"],
+    versions: ["v1.0"],
+  },
+  {
+    pattern: "sessions/{version}/**",
+    methods: ["GET"],
+    versions: ["v1.0"],
+  },
+  {
+    pattern: "evses/{version}/**",
+    methods: ["GET"],
+    versions: ["v2.1"],
+  },
+];
+
+/**
+ * Encoded separators and dots. `new URL()` resolves `%2e%2e` like `..`, so
+ * they must not reach the upstream URL inside an allowed path.
+ */
+const ENCODED_PATH_CHARS = /%(2f|5c|2e)/i;
+
+/**
+ * Checks whether a segment is empty, a dot segment (also once decoded) or
+ * hides a separator or dot segment in its encoding
+ */
+function isUnsafeSegment(segment: string): boolean {
+  if (segment === "" || ENCODED_PATH_CHARS.test(segment)) {
+    return true;
+  }
+
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    return true;
+  }
+  return decoded === "." || decoded === ".." || /[\\/]/.test(decoded);
+}
+
+/**
+ * Checks whether an endpoint matches a rule pattern
+ */
+function matchesPattern(rule: ApiPolicyRule, segments: string[]): boolean {
+  const patternSegments = rule.pattern.split("/");
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    const patternSegment = patternSegments[i];
+
+    if (patternSegment === "**" && i === patternSegments.length - 1) {
+      return true;
+    }
+
+    const segment = segments[i];
+    if (segment === undefined) {
+      return false;
+    }
+
+    if (patternSegment === "{version}") {
+      if (!rule.versions?.includes(segment)) {
+        return false;
+      }
+    } else if (patternSegment !== "*" && patternSegment !== segment) {
+      return false;
+    }
+  }
+
+  return segments.length === patternSegments.length;
+}
+
+/**
+ * Checks whether a rule applies to the requesting widget
+ */
+function matchesWidget(
+  rule: ApiPolicyRule,
+  widgetId?: number,
+  widgetName?: string
+): boolean {
+  if (!rule.widgets) {
+    return true;
+  }
+
+  const { ids, names } = rule.widgets;
+  return (
+    (widgetId !== undefined && !!ids?.includes(widgetId)) ||
+    (widgetName !== undefined && !!names?.includes(widgetName))
+  );
+}
+
+/**
+ * Evaluates a proxied request against the policy
+ * @param request Method, endpoint and widget identity
+ * @param policy Rules to evaluate (defaults to API_POLICY)
+ * @returns Decision with the matching rule or a rejection reason
+ */
+export function evaluateApiPolicy(
+  request: ApiPolicyRequest,
+  policy: ApiPolicyRule[] = API_POLICY
+): ApiPolicyDecision {
+  const segments = request.endpoint.replace(/^\/+|\/+$/g, "").split("/");
+
+  // Reject traversal (plain or encoded) and empty segments outright
+  if (segments.some(isUnsafeSegment)) {
+    return {
+      allowed: false,
+      reason: `Endpoint "${request.endpoint}" is not a valid resource path`,
+    };
+  }
+
+  const matchingRules = policy.filter(
+    (rule) =>
+      matchesPattern(rule, segments) &&
+      matchesWidget(rule, request.widgetId, request.widgetName)
+  );
+
+  if (matchingRules.length === 0) {
+    return {
+      allowed: false,
+      reason: `Endpoint "${request.endpoint}" is not allowed by the API policy`,
+    };
+  }
+
+  const rule = matchingRules.find((r) => r.methods.includes(request.method));
+  if (!rule) {
+    return {
+      allowed: false,
+      reason: `Method ${request.method} is not allowed for "${request.endpoint}"`,
+    };
+  }
+
+  return { allowed: true, rule };
+}
@@ -0,0 +1,135 @@
+/**
+ * Tenant Registry
+ *
+ * Lets one deployment serve a widget installed on several AMPECO tenants.
+ * Maps each tenant domain (the JWT `iss`) to its API token and settings:
+ *
+ * ```json
+ * {
+ *   "tenant-a.charge.ampeco.tech": { "apiToken": "..." },
+ *   "tenant-b.charge.ampeco.tech": { "apiToken": "...", "timeoutMs": 5000 }
+ * }
+ * ```
+ *
+ * Environment:
+ * - AMPECO_TENANTS: the registry as inline JSON
+ * - AMPECO_TENANTS_FILE: path to a JSON file with the registry (read once
+ *   per process)
+ *
+ * AMPECO_BASE_DOMAIN/AMPECO_API_TOKEN, when set, are added as the default
+ * tenant.
+ */
+
+import fs from "fs";
+import { registerSecret } from "@/lib/utils/logger";
+
+/**
+ * Settings of one tenant
+ */
+export interface TenantSettings {
+  apiToken: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+/**
+ * A registered tenant
+ */
+export interface TenantEntry extends TenantSettings {
+  /** Domain without protocol (e.g. tenant-a.charge.ampeco.tech) */
+  domain: string;
+}
+
+/**
+ * Normalizes a domain or tenant URL to a bare lower-case host
+ * @param value Domain or URL (with or without protocol)
+ */
+export function normalizeTenantDomain(value: string): string {
+  return value
+    .trim()
+    .replace(/^https?:\/\//i, "")
+    .replace(/\/+$/, "")
+    .toLowerCase();
+}
+
+/**
+ * Validates and converts a parsed registry
+ * @param value Parsed JSON
+ * @param source Where the registry came from (for error messages)
+ */
+export function parseTenantRegistry(
+  value: unknown,
+  source: string
+): TenantEntry[] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`${source} must map tenant domains to settings`);
+  }
+
+  return Object.entries(value as Record<string, unknown>).map(
+    ([domain, settings]) => {
+      const { apiToken, timeoutMs, maxRetries } = (settings ?? {}) as Record<
+        string,
+        unknown
+      >;
+      if (typeof apiToken !== "string" || !apiToken) {
+        throw new Error(`${source}: missing apiToken for tenant "${domain}"`);
+      }
+      if (timeoutMs !== undefined && typeof timeoutMs !== "number") {
+        throw new Error(`${source}: timeoutMs of "${domain}" must be a number`);
+      }
+      if (maxRetries !== undefined && typeof maxRetries !== "number") {
+        throw new Error(
+          `${source}: maxRetries of "${domain}" must be a number`
+        );
+      }
+      return {
+        domain: normalizeTenantDomain(domain),
+        apiToken,
+        timeoutMs,
+        maxRetries,
+      };
+    }
+  );
+}
+
+/**
+ * Registry parsed from the environment, with the inputs it was parsed from
+ */
+let registryCache: { key: string; tenants: TenantEntry[] } | null = null;
+
+/**
+ * Reads the registry from AMPECO_TENANTS or AMPECO_TENANTS_FILE
+ * @returns Registered tenants, or null if no registry is configured
+ * @throws Error if the registry is unreadable or invalid
+ */
+export function getTenantRegistry(): TenantEntry[] | null {
+  const inline = process.env.AMPECO_TENANTS;
+  const file = process.env.AMPECO_TENANTS_FILE;
+  if (!inline && !file) {
+    return null;
+  }
+
+  const key = `${inline ?? ""}\n${file ?? ""}`;
+  if (registryCache?.key === key) {
+    return registryCache.tenants;
+  }
+
+  const source = inline ? "AMPECO_TENANTS" : `AMPECO_TENANTS_FILE (${file})`;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(inline ?? fs.readFileSync(file!, "utf8"));
+  } catch (error) {
+    // Parser messages quote the input, which holds the API tokens
+    const reason =
+      error instanceof SyntaxError
+        ? "invalid JSON"
+        : ((error as NodeJS.ErrnoException).code ?? "unreadable");
+    throw new Error(`Failed to load ${source}: ${reason}`);
+  }
+
+  const tenants = parseTenantRegistry(parsed, source);
+  // Keep the tokens out of logs, e.g. in upstream error messages
+  tenants.forEach((tenant) => registerSecret(tenant.apiToken));
+  registryCache = { key, tenants };
+  return tenants;
+}
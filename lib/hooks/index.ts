@@ -16,8 +16,35 @@
  */
 
 // Generic API hooks
-export { useGet, usePost, usePatch, usePut, useDelete } from "./use-api";
+export {
+  useGet,
+  useGetAll,
+  usePost,
+  usePatch,
+  usePut,
+  useDelete,
+} from "./use-api";
+export type { ApiMutationOptions } from "./use-api";
+
+// Batching multiple GETs into one round trip
+export { useBatch, fetchBatch } from "./use-batch";
+
+// Binary downloads (CSV, PDF, images)
+export { useBlob, useDownload, fetchBlob, saveBlob } from "./use-download";
+
+// Widget context (user, widget, resource the widget is placed on)
+export {
+  useWidgetContext,
+  useIsImpersonating,
+} from "@/lib/providers/widget-context-provider";
+export type { WidgetContext } from "@/lib/auth/get-jwt-context";
 
 // Utilities
-export { getTokenFromUrl, appendTokenToUrl } from "./utils";
+export {
+  getTokenFromUrl,
+  appendTokenToUrl,
+  buildApiUrl,
+  getCsrfToken,
+  withCsrfHeader,
+} from "./utils";
 
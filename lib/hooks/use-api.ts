@@ -12,54 +12,98 @@ import {
   type UseMutationOptions,
 } from "@tanstack/react-query";
 import type { QueryKey } from "@tanstack/react-query";
-import { appendTokenToUrl } from "./utils";
+import {
+  API_ERROR_CODES,
+  ApiRequestError,
+  parseApiErrorResponse,
+} from "@/lib/services/api-error";
+import { IMPERSONATION_CONFIRM_HEADER } from "@/lib/services/api-headers";
+import type { AllPagesMeta } from "@/lib/services/api";
+import type { QueryParams } from "@/lib/utils/query-string";
+import { useIsImpersonating } from "@/lib/providers/widget-context-provider";
+import { appendTokenToUrl, buildApiUrl, withCsrfHeader } from "./utils";
 
 /**
  * Generic query key factory for any API endpoint
  */
-function createQueryKey(
+export function createQueryKey(
   endpoint: string,
   params?: Record<string, unknown>
 ): QueryKey {
   return ["ampeco", "api", endpoint, params] as QueryKey;
 }
 
+/**
+ * Options accepted by the mutation hooks
+ *
+ * TanStack Query does not give mutations an AbortSignal, so one can be
+ * passed here (e.g. from an AbortController aborted on unmount) to cancel
+ * the request in the browser and the proxy's upstream call.
+ *
+ * `confirmImpersonation` is called before each mutation while the user is
+ * impersonated; resolving to true sends the confirmation the
+ * "confirm" impersonation policy requires, false cancels the mutation.
+ */
+export type ApiMutationOptions<TData, TVariables> = Omit<
+  UseMutationOptions<TData, ApiRequestError, TVariables>,
+  "mutationFn"
+> & {
+  signal?: AbortSignal;
+  confirmImpersonation?: () => boolean | Promise<boolean>;
+};
+
+/**
+ * Builds the headers of a mutation: the CSRF token and, while
+ * impersonating, the user's confirmation
+ * @throws ApiRequestError (request_cancelled) if the user declined
+ */
+async function buildMutationHeaders(
+  isImpersonating: boolean,
+  confirmImpersonation: (() => boolean | Promise<boolean>) | undefined,
+  headers: Record<string, string> = {}
+): Promise<Record<string, string>> {
+  if (isImpersonating && confirmImpersonation) {
+    if (!(await confirmImpersonation())) {
+      throw new ApiRequestError("Change cancelled", {
+        code: API_ERROR_CODES.CANCELLED,
+      });
+    }
+    return withCsrfHeader({
+      ...headers,
+      [IMPERSONATION_CONFIRM_HEADER]: "true",
+    });
+  }
+  return withCsrfHeader(headers);
+}
+
 /**
  * Generic GET hook for fetching data from any AMPECO API endpoint
  *
+ * Failed requests throw an ApiRequestError carrying the upstream status,
+ * error code and field errors. Superseded or unmounted queries are aborted,
+ * which also cancels the proxy's upstream call.
+ *
  * @example
  * ```tsx
  * const { data, isLoading } = useGet(
  *   "/api/charge-points/v1.0",
- *   { page: 1, per_page: 10 }
+ *   { page: 1, per_page: 10, filter: { status: ["available", "charging"] } }
  * );
  * ```
  */
 export function useGet<T = unknown>(
   endpoint: string,
-  params?: Record<string, string | number | boolean>,
-  options?: Omit<UseQueryOptions<T, Error>, "queryKey" | "queryFn">
+  params?: QueryParams,
+  options?: Omit<UseQueryOptions<T, ApiRequestError>, "queryKey" | "queryFn">
 ) {
-  return useQuery<T, Error>({
+  return useQuery<T, ApiRequestError>({
     queryKey: createQueryKey(endpoint, params),
-    queryFn: async () => {
-      const searchParams = new URLSearchParams();
-      if (params) {
-        Object.entries(params).forEach(([key, value]) => {
-          if (value !== undefined && value !== null) {
-            searchParams.set(key, String(value));
-          }
-        });
-      }
+    queryFn: async ({ signal }) => {
+      const url = buildApiUrl(endpoint, params);
 
-      let url = `${endpoint}${
-        searchParams.toString() ? `?${searchParams.toString()}` : ""
-      }`;
-      url = appendTokenToUrl(url);
-
-      const response = await fetch(url);
+      const response = await fetch(url, { signal });
       if (!response.ok) {
-        throw new Error(`Failed to fetch: ${response.statusText}`);
+        throw await parseApiErrorResponse(response, "Failed to fetch");
       }
       return response.json();
     },
@@ -68,6 +112,36 @@ export function useGet<T = unknown>(
   });
 }
 
+/**
+ * GET hook that fetches every page of a collection in one call
+ *
+ * The proxy walks the pages server-side (bounded by its page and item caps)
+ * and returns a single `data` array. `meta.truncated` is true when a cap
+ * was hit.
+ *
+ * @example
+ * ```tsx
+ * const { data } = useGetAll<Session>("/api/sessions/v1.0", {
+ *   filter: { status: "finished" },
+ * });
+ * const totalEnergy = data?.data.reduce((sum, s) => sum + s.energy, 0);
+ * ```
+ */
+export function useGetAll<T = unknown>(
+  endpoint: string,
+  params?: QueryParams,
+  options?: Omit<
+    UseQueryOptions<{ data: T[]; meta: AllPagesMeta }, ApiRequestError>,
+    "queryKey" | "queryFn"
+  >
+) {
+  return useGet<{ data: T[]; meta: AllPagesMeta }>(
+    endpoint,
+    { ...params, fetch_all: 1 },
+    options
+  );
+}
+
 /**
  * Generic POST hook for creating resources
  *
@@ -86,26 +160,33 @@ export function useGet<T = unknown>(
  */
 export function usePost<TData = unknown, TVariables = unknown>(
   endpoint: string,
-  options?: Omit<UseMutationOptions<TData, Error, TVariables>, "mutationFn">
+  options?: ApiMutationOptions<TData, TVariables>
 ) {
-  return useMutation<TData, Error, TVariables>({
+  const { signal, confirmImpersonation, ...mutationOptions } = options ?? {};
+  const isImpersonating = useIsImpersonating();
+
+  const mutation = useMutation<TData, ApiRequestError, TVariables>({
     mutationFn: async (data) => {
       const url = appendTokenToUrl(endpoint);
 
       const response = await fetch(url, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
+        headers: await buildMutationHeaders(
+          isImpersonating,
+          confirmImpersonation,
+          { "Content-Type": "application/json" }
+        ),
         body: JSON.stringify(data),
+        signal,
       });
       if (!response.ok) {
-        throw new Error(`Failed to create: ${response.statusText}`);
+        throw await parseApiErrorResponse(response, "Failed to create");
       }
       return response.json();
     },
-    ...options,
+    ...mutationOptions,
   });
+  return { ...mutation, isImpersonating };
 }
 
 /**
@@ -126,9 +207,12 @@ export function usePost<TData = unknown, TVariables = unknown>(
  */
 export function usePatch<TData = unknown, TVariables = unknown>(
   endpoint: string,
-  options?: Omit<UseMutationOptions<TData, Error, TVariables>, "mutationFn">
+  options?: ApiMutationOptions<TData, TVariables>
 ) {
-  return useMutation<TData, Error, TVariables>({
+  const { signal, confirmImpersonation, ...mutationOptions } = options ?? {};
+  const isImpersonating = useIsImpersonating();
+
+  const mutation = useMutation<TData, ApiRequestError, TVariables>({
     mutationFn: async (variables) => {
       // For PATCH, we expect variables to have { id, data } or just data
       // If it's an object with id, we append it to the endpoint
@@ -153,18 +237,22 @@ export function usePatch<TData = unknown, TVariables = unknown>(
 
       const response = await fetch(url, {
         method: "PATCH",
-        headers: {
-          "Content-Type": "application/json",
-        },
+        headers: await buildMutationHeaders(
+          isImpersonating,
+          confirmImpersonation,
+          { "Content-Type": "application/json" }
+        ),
         body: JSON.stringify(body),
+        signal,
       });
       if (!response.ok) {
-        throw new Error(`Failed to update: ${response.statusText}`);
+        throw await parseApiErrorResponse(response, "Failed to update");
       }
       return response.json();
     },
-    ...options,
+    ...mutationOptions,
   });
+  return { ...mutation, isImpersonating };
 }
 
 /**
@@ -185,9 +273,12 @@ export function usePatch<TData = unknown, TVariables = unknown>(
  */
 export function usePut<TData = unknown, TVariables = unknown>(
   endpoint: string,
-  options?: Omit<UseMutationOptions<TData, Error, TVariables>, "mutationFn">
+  options?: ApiMutationOptions<TData, TVariables>
 ) {
-  return useMutation<TData, Error, TVariables>({
+  const { signal, confirmImpersonation, ...mutationOptions } = options ?? {};
+  const isImpersonating = useIsImpersonating();
+
+  const mutation = useMutation<TData, ApiRequestError, TVariables>({
     mutationFn: async (variables) => {
       // For PUT, we expect variables to have { id, data } or just data
       let url = endpoint;
@@ -211,23 +302,30 @@ export function usePut<TData = unknown, TVariables = unknown>(
 
       const response = await fetch(url, {
         method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-        },
+        headers: await buildMutationHeaders(
+          isImpersonating,
+          confirmImpersonation,
+          { "Content-Type": "application/json" }
+        ),
         body: JSON.stringify(body),
+        signal,
       });
       if (!response.ok) {
-        throw new Error(`Failed to replace: ${response.statusText}`);
+        throw await parseApiErrorResponse(response, "Failed to replace");
       }
       return response.json();
     },
-    ...options,
+    ...mutationOptions,
   });
+  return { ...mutation, isImpersonating };
 }
 
 /**
  * Generic DELETE hook for deleting resources
  *
+ * Like every mutation hook, the result has `isImpersonating`, true while
+ * support staff act as the user.
+ *
  * @example
  * ```tsx
  * const deleteMutation = useDelete<void, string>(
@@ -238,22 +336,30 @@ export function usePut<TData = unknown, TVariables = unknown>(
  *     }
  *   }
  * );
- * deleteMutation.mutate("123");
+ * <Button disabled={deleteMutation.isImpersonating} onClick={() => deleteMutation.mutate("123")} />
  * ```
  */
 export function useDelete<TData = void, TVariables = string>(
   endpoint: string,
-  options?: Omit<UseMutationOptions<TData, Error, TVariables>, "mutationFn">
+  options?: ApiMutationOptions<TData, TVariables>
 ) {
-  return useMutation<TData, Error, TVariables>({
+  const { signal, confirmImpersonation, ...mutationOptions } = options ?? {};
+  const isImpersonating = useIsImpersonating();
+
+  const mutation = useMutation<TData, ApiRequestError, TVariables>({
     mutationFn: async (id) => {
       const url = appendTokenToUrl(`${endpoint}/${id}`);
 
       const response = await fetch(url, {
         method: "DELETE",
+        headers: await buildMutationHeaders(
+          isImpersonating,
+          confirmImpersonation
+        ),
+        signal,
       });
       if (!response.ok) {
-        throw new Error(`Failed to delete: ${response.statusText}`);
+        throw await parseApiErrorResponse(response, "Failed to delete");
       }
       // DELETE might return empty body
       if (
@@ -264,6 +370,7 @@ export function useDelete<TData = void, TVariables = string>(
       }
       return response.json();
     },
-    ...options,
+    ...mutationOptions,
   });
+  return { ...mutation, isImpersonating };
 }
@@ -0,0 +1,104 @@
+/**
+ * Batch Hook
+ *
+ * Fetches several AMPECO resources in one round trip through /api/batch
+ * and seeds the TanStack Query cache under the same keys useGet uses,
+ * so components calling useGet for those resources render immediately.
+ */
+
+import {
+  useQuery,
+  useQueryClient,
+  type UseQueryOptions,
+} from "@tanstack/react-query";
+import type { QueryKey } from "@tanstack/react-query";
+import type { BatchRequestItem, BatchResultItem } from "@/lib/services/batch";
+import {
+  parseApiErrorResponse,
+  type ApiRequestError,
+} from "@/lib/services/api-error";
+import type { QueryParams } from "@/lib/utils/query-string";
+import { createQueryKey } from "./use-api";
+import { appendTokenToUrl, withCsrfHeader } from "./utils";
+
+/**
+ * A GET request in a batch, addressed like useGet
+ */
+export interface BatchGetRequest {
+  endpoint: string;
+  params?: QueryParams;
+}
+
+/**
+ * Sends a batch of requests to /api/batch
+ * @param requests Calls to make
+ * @param signal Aborts the batch (and its upstream calls)
+ * @returns One result per request, in order
+ */
+export async function fetchBatch(
+  requests: BatchRequestItem[],
+  signal?: AbortSignal
+): Promise<BatchResultItem[]> {
+  const response = await fetch(appendTokenToUrl("/api/batch"), {
+    method: "POST",
+    headers: withCsrfHeader({
+      "Content-Type": "application/json",
+    }),
+    body: JSON.stringify(requests),
+    signal,
+  });
+  if (!response.ok) {
+    throw await parseApiErrorResponse(response, "Failed to run batch");
+  }
+  const { results } = await response.json();
+  return results;
+}
+
+/**
+ * Fetches several resources at once and fills the useGet cache
+ *
+ * @example
+ * ```tsx
+ * const { data: results } = useBatch([
+ *   { endpoint: "/api/sessions/v1.0", params: { page: 1 } },
+ *   { endpoint: "/api/charge-points/v1.0" },
+ *   { endpoint: "/api/evses/v2.1" },
+ * ]);
+ * // Elsewhere, served from the cache without another request:
+ * const { data } = useGet("/api/charge-points/v1.0");
+ * ```
+ */
+export function useBatch(
+  requests: BatchGetRequest[],
+  options?: Omit<
+    UseQueryOptions<BatchResultItem[], ApiRequestError>,
+    "queryKey" | "queryFn"
+  >
+) {
+  const queryClient = useQueryClient();
+
+  return useQuery<BatchResultItem[], ApiRequestError>({
+    queryKey: ["ampeco", "batch", requests] as QueryKey,
+    queryFn: async ({ signal }) => {
+      const results = await fetchBatch(
+        requests.map((request) => ({ method: "GET", ...request })),
+        signal
+      );
+
+      // Spread successful results into the per-resource cache
+      results.forEach((result, index) => {
+        if ("data" in result) {
+          const { endpoint, params } = requests[index];
+          queryClient.setQueryData(
+            createQueryKey(endpoint, params),
+            result.data
+          );
+        }
+      });
+
+      return results;
+    },
+    staleTime: 30 * 1000, // 30 seconds default
+    ...options,
+  });
+}
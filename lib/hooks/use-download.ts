@@ -0,0 +1,195 @@
+/**
+ * Binary Download Hooks
+ *
+ * Hooks for consuming non-JSON AMPECO resources (CSV exports, PDF invoices,
+ * images). Requests are sent with a non-JSON Accept header so the proxy
+ * streams the upstream body through instead of parsing it.
+ */
+
+import {
+  useQuery,
+  useMutation,
+  type UseQueryOptions,
+  type UseMutationOptions,
+} from "@tanstack/react-query";
+import type { QueryKey } from "@tanstack/react-query";
+import {
+  parseApiErrorResponse,
+  type ApiRequestError,
+} from "@/lib/services/api-error";
+import type { QueryParams } from "@/lib/utils/query-string";
+import { buildApiUrl } from "./utils";
+
+/**
+ * Accept header used when the caller doesn't specify one
+ */
+const DEFAULT_ACCEPT =
+  "application/octet-stream, application/pdf, text/csv, image/*";
+
+/**
+ * Downloaded resource
+ */
+export interface BlobResult {
+  blob: Blob;
+  contentType: string;
+  filename: string | null;
+}
+
+/**
+ * Options for blob requests
+ */
+export interface BlobRequestOptions {
+  accept?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Extracts the filename from a Content-Disposition header
+ * @param header Content-Disposition header value
+ * @returns Filename or null if none is present
+ */
+export function getFilenameFromDisposition(
+  header: string | null
+): string | null {
+  if (!header) {
+    return null;
+  }
+
+  // RFC 5987 encoded filename takes precedence
+  const encoded = header.match(/filename\*\s*=\s*(?:UTF-8'')?([^;]+)/i);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1].trim().replace(/^"|"$/g, ""));
+    } catch {
+      // Fall through to the plain filename
+    }
+  }
+
+  const plain = header.match(/filename\s*=\s*("([^"]*)"|[^;]+)/i);
+  if (plain) {
+    return (plain[2] ?? plain[1]).trim();
+  }
+
+  return null;
+}
+
+/**
+ * Fetches a non-JSON resource through the proxy
+ *
+ * @example
+ * ```ts
+ * const { blob, filename } = await fetchBlob(
+ *   "/api/sessions/v1.0/export",
+ *   { format: "csv" },
+ *   { accept: "text/csv" }
+ * );
+ * ```
+ */
+export async function fetchBlob(
+  endpoint: string,
+  params?: QueryParams,
+  options: BlobRequestOptions = {}
+): Promise<BlobResult> {
+  const response = await fetch(buildApiUrl(endpoint, params), {
+    headers: { Accept: options.accept ?? DEFAULT_ACCEPT },
+    signal: options.signal,
+  });
+  if (!response.ok) {
+    throw await parseApiErrorResponse(response, "Failed to download");
+  }
+
+  return {
+    blob: await response.blob(),
+    contentType:
+      response.headers.get("content-type") ?? "application/octet-stream",
+    filename: getFilenameFromDisposition(
+      response.headers.get("content-disposition")
+    ),
+  };
+}
+
+/**
+ * Saves a blob to disk via a temporary object URL
+ * @param blob Blob to save
+ * @param filename Suggested filename
+ */
+export function saveBlob(blob: Blob, filename: string): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke after the click has been handled
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Query hook for consuming a blob (e.g. rendering an image or PDF preview)
+ *
+ * @example
+ * ```tsx
+ * const { data } = useBlob("/api/charge-points/v1.0/123/qr-code", undefined, {
+ *   accept: "image/png",
+ * });
+ * const src = useMemo(
+ *   () => (data ? URL.createObjectURL(data.blob) : undefined),
+ *   [data]
+ * );
+ * ```
+ */
+export function useBlob(
+  endpoint: string,
+  params?: QueryParams,
+  options?: Omit<
+    UseQueryOptions<BlobResult, ApiRequestError>,
+    "queryKey" | "queryFn"
+  > & { accept?: string }
+) {
+  const { accept, ...queryOptions } = options ?? {};
+
+  return useQuery<BlobResult, ApiRequestError>({
+    queryKey: ["ampeco", "blob", endpoint, params, accept] as QueryKey,
+    queryFn: ({ signal }) => fetchBlob(endpoint, params, { accept, signal }),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    ...queryOptions,
+  });
+}
+
+/**
+ * Mutation hook that downloads a resource and saves it to disk
+ *
+ * @example
+ * ```tsx
+ * const download = useDownload("/api/invoices/v1.0/42/pdf", {
+ *   accept: "application/pdf",
+ *   filename: "invoice-42.pdf",
+ * });
+ * <button onClick={() => download.mutate(undefined)}>Download</button>
+ * ```
+ */
+export function useDownload<
+  TVariables extends QueryParams | undefined = QueryParams | undefined,
+>(
+  endpoint: string,
+  options?: Omit<
+    UseMutationOptions<BlobResult, ApiRequestError, TVariables>,
+    "mutationFn"
+  > & { accept?: string; filename?: string }
+) {
+  const { accept, filename, ...mutationOptions } = options ?? {};
+
+  return useMutation<BlobResult, ApiRequestError, TVariables>({
+    mutationFn: async (params) => {
+      const result = await fetchBlob(endpoint, params, { accept });
+      saveBlob(result.blob, result.filename ?? filename ?? "download");
+      return result;
+    },
+    ...mutationOptions,
+  });
+}
@@ -2,7 +2,9 @@
  * Shared utilities for AMPECO hooks
  */
 
+import { CSRF_COOKIE_NAME, CSRF_HEADER } from "@/lib/services/api-headers";
 import { preserveToken } from "@/lib/utils/preserve-token";
+import { appendQuery, type QueryInput } from "@/lib/utils/query-string";
 
 /**
  * Extracts JWT token from current page URL
@@ -18,6 +20,10 @@ export function getTokenFromUrl(): string | null {
 
 /**
  * Appends token to a URL if present in the current page URL
+ *
+ * Once the middleware has exchanged the URL token for the session cookie,
+ * the page URL has no token and requests authenticate with the cookie;
+ * the query parameter remains the fallback when sessions are disabled.
  * @param url Base URL to append token to
  * @returns URL with token parameter if token exists
  */
@@ -25,3 +31,40 @@ export function appendTokenToUrl(url: string): string {
   const token = getTokenFromUrl();
   return preserveToken(url, token);
 }
+
+/**
+ * Reads the CSRF token issued with the session cookie
+ * @returns CSRF token or null (no session, or running on the server)
+ */
+export function getCsrfToken(): string | null {
+  if (typeof document === "undefined") {
+    return null;
+  }
+  const prefix = `${CSRF_COOKIE_NAME}=`;
+  const cookie = document.cookie
+    .split("; ")
+    .find((entry) => entry.startsWith(prefix));
+  return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+}
+
+/**
+ * Builds the headers of a mutating request, including the CSRF token
+ * @param headers Request-specific headers
+ * @returns Headers with X-CSRF-Token when a session is active
+ */
+export function withCsrfHeader(
+  headers: Record<string, string> = {}
+): Record<string, string> {
+  const csrfToken = getCsrfToken();
+  return csrfToken ? { ...headers, [CSRF_HEADER]: csrfToken } : headers;
+}
+
+/**
+ * Builds a proxy URL with query parameters and the current token
+ * @param endpoint Proxy endpoint (e.g. /api/charge-points/v1.0)
+ * @param params Query parameters
+ * @returns URL with query string and token parameter
+ */
+export function buildApiUrl(endpoint: string, params?: QueryInput): string {
+  return appendTokenToUrl(appendQuery(endpoint, params));
+}
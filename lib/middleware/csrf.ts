@@ -0,0 +1,205 @@
+/**
+ * CSRF Protection
+ *
+ * Guards mutating API requests (POST, PATCH, PUT, DELETE, including
+ * /api/batch) in the middleware with two checks:
+ *
+ * - Origin: the `Origin` header (or the `Referer` origin) must be the widget
+ *   itself, the JWT audience or the AMPECO tenant
+ * - Token: requests authenticated by the session cookie must send the
+ *   signed CSRF token from the `__Host-ampeco_csrf` cookie in the
+ *   `X-CSRF-Token` header (signed double-submit). The token is an HMAC over
+ *   the JWT identity, so it cannot be reused by another user or widget.
+ *
+ * Requests that carry the JWT in the URL or Authorization header are not
+ * forgeable cross-site (the attacker does not have the JWT), so only the
+ * Origin check applies to them.
+ *
+ * Environment:
+ * - CSRF_SECRET: at least 32 characters; required when SESSION_SECRET is set
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { NextRequest, NextResponse } from "next/server";
+import type { AmpecoJwtPayload } from "@/lib/auth/jwt-verifier";
+import { CSRF_COOKIE_NAME, CSRF_HEADER } from "@/lib/services/api-headers";
+
+export { CSRF_COOKIE_NAME, CSRF_HEADER };
+
+const MIN_SECRET_LENGTH = 32;
+
+const MUTATING_METHODS = new Set(["POST", "PATCH", "PUT", "DELETE"]);
+
+/**
+ * Why a request failed the CSRF check
+ */
+export type CsrfFailureReason =
+  "missing_origin" | "origin_mismatch" | "missing_token" | "invalid_token";
+
+/**
+ * Gets the HMAC key
+ * @throws Error if CSRF_SECRET is unset or too short
+ */
+function getCsrfSecret(): string {
+  const secret = process.env.CSRF_SECRET;
+  if (!secret || secret.length < MIN_SECRET_LENGTH) {
+    throw new Error(
+      `CSRF_SECRET must be at least ${MIN_SECRET_LENGTH} characters when session cookies are enabled`
+    );
+  }
+  return secret;
+}
+
+/**
+ * Identity a CSRF token is bound to
+ */
+function getIdentity(payload: AmpecoJwtPayload): string {
+  return [payload.iss, payload.app_id, payload.user_id, payload.widget_id].join(
+    "|"
+  );
+}
+
+/**
+ * Signs a nonce for an identity
+ */
+function sign(identity: string, nonce: string): string {
+  return createHmac("sha256", getCsrfSecret())
+    .update(`${identity}:${nonce}`)
+    .digest("base64url");
+}
+
+/**
+ * Checks if a method changes state and needs CSRF protection
+ */
+export function isMutatingMethod(method: string): boolean {
+  return MUTATING_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * Creates a CSRF token bound to the JWT identity
+ * @param payload Verified JWT payload
+ * @returns `<nonce>.<signature>`
+ */
+export function createCsrfToken(payload: AmpecoJwtPayload): string {
+  const nonce = randomBytes(16).toString("base64url");
+  return `${nonce}.${sign(getIdentity(payload), nonce)}`;
+}
+
+/**
+ * Verifies a CSRF token against the JWT identity
+ * @param token Token from the request
+ * @param payload Verified JWT payload
+ */
+export function verifyCsrfToken(
+  token: string,
+  payload: AmpecoJwtPayload
+): boolean {
+  const [nonce, signature, ...rest] = token.split(".");
+  if (!nonce || !signature || rest.length > 0) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(getIdentity(payload), nonce));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Sets the CSRF cookie next to the session cookie
+ * @param response Response to add the cookie to
+ * @param token CSRF token
+ * @param expiresAt Session expiry in seconds since the epoch
+ */
+export function setCsrfCookie(
+  response: NextResponse,
+  token: string,
+  expiresAt: number
+): void {
+  response.cookies.set(CSRF_COOKIE_NAME, token, {
+    // Read by the hooks to fill the X-CSRF-Token header
+    httpOnly: false,
+    secure: true,
+    sameSite: "none",
+    partitioned: true,
+    path: "/",
+    maxAge: Math.max(0, expiresAt - Math.floor(Date.now() / 1000)),
+  });
+}
+
+/**
+ * Gets the origin a request was sent from (Origin, else Referer)
+ */
+function getRequestOrigin(request: NextRequest): string | null {
+  const origin = request.headers.get("origin");
+  if (origin && origin !== "null") {
+    return origin;
+  }
+
+  const referer = request.headers.get("referer");
+  if (!referer) {
+    return null;
+  }
+  try {
+    return new URL(referer).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Origins mutating requests may come from: the widget, the JWT audience
+ * and the AMPECO tenant
+ */
+function getAllowedOrigins(
+  request: NextRequest,
+  payload: AmpecoJwtPayload
+): Set<string> {
+  const allowed = new Set([request.nextUrl.origin]);
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  [...audiences, payload.iss].forEach((value) => {
+    try {
+      allowed.add(new URL(value).origin);
+    } catch {
+      // Not a URL (e.g. a bare audience id)
+    }
+  });
+  return allowed;
+}
+
+/**
+ * Checks a mutating request for CSRF
+ * @param request Incoming request
+ * @param payload Verified JWT payload
+ * @param fromSessionCookie Whether the JWT came from the session cookie
+ * @returns Why the request was rejected, or null if it passed
+ */
+export function checkCsrf(
+  request: NextRequest,
+  payload: AmpecoJwtPayload,
+  fromSessionCookie: boolean
+): CsrfFailureReason | null {
+  const origin = getRequestOrigin(request);
+  if (!origin) {
+    // Browsers always send Origin on cross-site mutations; non-browser
+    // clients holding the JWT themselves may omit it
+    if (fromSessionCookie) {
+      return "missing_origin";
+    }
+  } else if (!getAllowedOrigins(request, payload).has(origin)) {
+    return "origin_mismatch";
+  }
+
+  if (!fromSessionCookie) {
+    return null;
+  }
+
+  const headerToken = request.headers.get(CSRF_HEADER);
+  const cookieToken = request.cookies.get(CSRF_COOKIE_NAME)?.value;
+  if (!headerToken || !cookieToken) {
+    return "missing_token";
+  }
+  if (headerToken !== cookieToken || !verifyCsrfToken(headerToken, payload)) {
+    return "invalid_token";
+  }
+  return null;
+}
@@ -0,0 +1,425 @@
+/**
+ * Rate Limiter
+ *
+ * Sliding-window rate limiting for the API routes, configured by
+ * RATE_LIMIT_CONFIG. Each request counts against two buckets, one per
+ * client IP (counted by the middleware before the JWT is verified, so
+ * requests with missing or invalid tokens are limited too) and one per
+ * tenant and JWT `app_id`/`user_id`, and is rejected if either is over the
+ * limit.
+ * Counters live behind a RateLimitStore: in-memory by default, or a shared
+ * Redis-like store via createRedisRateLimitStore().
+ *
+ * Environment:
+ * - RATE_LIMIT_TRUSTED_PROXY_HOPS: number of proxies in front of the app
+ *   that append to X-Forwarded-For (default 1 on Vercel, whose edge sets
+ *   the header, else 0: forwarded headers are ignored, the client IP is
+ *   unknown and only the user bucket applies)
+ */
+
+import { RATE_LIMIT_CONFIG } from "@/lib/middleware/security";
+
+/**
+ * Limit for one endpoint pattern
+ */
+export interface RateLimitRule {
+  pattern: string;
+  windowMs: number;
+  maxRequests: number;
+}
+
+/**
+ * Default limit plus per-pattern overrides
+ */
+export interface RateLimitConfig {
+  windowMs: number;
+  maxRequests: number;
+  rules?: RateLimitRule[];
+}
+
+/**
+ * Client IP used when it cannot be determined
+ */
+export const UNKNOWN_IP = "unknown";
+
+/**
+ * Who a request is counted against
+ */
+export interface RateLimitIdentity {
+  ip?: string;
+  userId?: number;
+  appId?: number;
+  /** Tenant URL (JWT `iss`), since user ids are only unique per tenant */
+  tenant?: string;
+}
+
+/**
+ * Outcome of a rate limit check
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Pattern of the rule that applied ("default" if none matched) */
+  rule: string;
+  limit: number;
+  remaining: number;
+  windowMs: number;
+  /** Time until the current window ends */
+  resetMs: number;
+  /** Time until a new request would be allowed (0 if allowed) */
+  retryAfterMs: number;
+}
+
+/**
+ * Counter storage
+ *
+ * Counters are per fixed window; the limiter weighs the previous window to
+ * get a sliding estimate. `increment` must be atomic for shared stores.
+ */
+export interface RateLimitStore {
+  /**
+   * Increments a counter, expiring it after ttlMs
+   * @returns The new value
+   */
+  increment(key: string, ttlMs: number): Promise<number>;
+  /**
+   * Reads a counter
+   * @returns The current value, or 0 if missing
+   */
+  get(key: string): Promise<number>;
+}
+
+/**
+ * Minimal client interface satisfied by ioredis, node-redis (v4+)
+ * and @upstash/redis
+ */
+export interface RedisLikeClient {
+  incr(key: string): Promise<number>;
+  pexpire(key: string, milliseconds: number): Promise<unknown>;
+  get(key: string): Promise<string | number | null>;
+}
+
+/**
+ * In-memory store (per server instance)
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; expiresAt: number }>();
+  private nextSweepAt = 0;
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const counter = this.counters.get(key);
+    if (counter && counter.expiresAt > now) {
+      counter.count++;
+      return counter.count;
+    }
+
+    this.counters.set(key, { count: 1, expiresAt: now + ttlMs });
+    return 1;
+  }
+
+  async get(key: string): Promise<number> {
+    const counter = this.counters.get(key);
+    return counter && counter.expiresAt > Date.now() ? counter.count : 0;
+  }
+
+  /**
+   * Drops expired counters at most once a minute
+   */
+  private sweep(now: number): void {
+    if (now < this.nextSweepAt) {
+      return;
+    }
+    this.nextSweepAt = now + 60 * 1000;
+    this.counters.forEach((counter, key) => {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * Creates a store backed by a Redis-like client (INCR + PEXPIRE)
+ * @param client Redis client
+ * @param prefix Key prefix
+ */
+export function createRedisRateLimitStore(
+  client: RedisLikeClient,
+  prefix: string = "ratelimit:"
+): RateLimitStore {
+  return {
+    async increment(key, ttlMs) {
+      const count = await client.incr(prefix + key);
+      if (count === 1) {
+        await client.pexpire(prefix + key, ttlMs);
+      }
+      return count;
+    },
+    async get(key) {
+      const value = await client.get(prefix + key);
+      return value === null ? 0 : Number(value);
+    },
+  };
+}
+
+/**
+ * Checks whether a path matches a rule pattern (`*` matches one segment,
+ * a trailing `**` any number of segments)
+ */
+export function matchesPath(pattern: string, pathname: string): boolean {
+  const patternSegments = pattern.split("/").filter(Boolean);
+  const segments = pathname.split("/").filter(Boolean);
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    if (patternSegments[i] === "**" && i === patternSegments.length - 1) {
+      return true;
+    }
+    if (
+      segments[i] === undefined ||
+      (patternSegments[i] !== "*" && patternSegments[i] !== segments[i])
+    ) {
+      return false;
+    }
+  }
+
+  return segments.length === patternSegments.length;
+}
+
+/**
+ * Gets the number of trusted proxies from RATE_LIMIT_TRUSTED_PROXY_HOPS
+ * (default 1 on Vercel, else 0)
+ */
+export function getTrustedProxyHops(): number {
+  const value = process.env.RATE_LIMIT_TRUSTED_PROXY_HOPS;
+  if (!value) {
+    return process.env.VERCEL === "1" ? 1 : 0;
+  }
+  const hops = Number(value);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+/**
+ * Gets the client IP from proxy headers
+ *
+ * Clients can send any X-Forwarded-For value, so only the addresses
+ * appended by the trusted proxies (counted from the right) are used.
+ * @param headers Request headers
+ * @param trustedProxyHops Number of trusted proxies in front of the app
+ * @returns The address the outermost trusted proxy saw, X-Real-IP, or
+ * UNKNOWN_IP (always, when no proxy is trusted)
+ */
+export function getClientIp(
+  headers: Headers,
+  trustedProxyHops: number = getTrustedProxyHops()
+): string {
+  if (trustedProxyHops <= 0) {
+    return UNKNOWN_IP;
+  }
+
+  const forwardedFor = headers
+    .get("x-forwarded-for")
+    ?.split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (forwardedFor?.length) {
+    return forwardedFor[Math.max(0, forwardedFor.length - trustedProxyHops)];
+  }
+  return headers.get("x-real-ip")?.trim() || UNKNOWN_IP;
+}
+
+/**
+ * Builds the IETF RateLimit-* headers (plus Retry-After when rejected)
+ */
+export function getRateLimitHeaders(
+  result: RateLimitResult
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(Math.ceil(result.resetMs / 1000)),
+    "RateLimit-Policy": `${result.limit};w=${Math.ceil(result.windowMs / 1000)}`,
+  };
+  if (!result.allowed) {
+    headers["Retry-After"] = String(Math.ceil(result.retryAfterMs / 1000));
+  }
+  return headers;
+}
+
+/**
+ * Sliding-window rate limiter
+ *
+ * Approximates a sliding window from two fixed windows: the previous
+ * window's count is weighted by how much of it still overlaps the sliding
+ * window. Rejected requests are counted too, so a client that keeps
+ * hammering stays limited.
+ */
+export class RateLimiter {
+  constructor(
+    private readonly config: RateLimitConfig = RATE_LIMIT_CONFIG,
+    private readonly store: RateLimitStore = new MemoryRateLimitStore()
+  ) {}
+
+  /**
+   * Finds the limit for a path (first matching rule, else the default)
+   */
+  resolveRule(pathname: string): RateLimitRule {
+    return (
+      this.config.rules?.find((rule) =>
+        matchesPath(rule.pattern, pathname)
+      ) ?? {
+        pattern: "default",
+        windowMs: this.config.windowMs,
+        maxRequests: this.config.maxRequests,
+      }
+    );
+  }
+
+  /**
+   * Counts a request against the user and IP buckets and decides whether
+   * it is allowed
+   * @param pathname Request path
+   * @param identity Client the request is counted against
+   * @param now Current time in milliseconds
+   * @returns The result of the most restrictive bucket
+   */
+  async check(
+    pathname: string,
+    identity: RateLimitIdentity,
+    now: number = Date.now()
+  ): Promise<RateLimitResult> {
+    const rule = this.resolveRule(pathname);
+    const results = await Promise.all(
+      getBucketKeys(identity).map((bucket) =>
+        this.checkBucket(rule, `${rule.pattern}:${bucket}`, now)
+      )
+    );
+
+    return getMostRestrictive(results);
+  }
+
+  /**
+   * Counts a request in one bucket
+   */
+  private async checkBucket(
+    { pattern, windowMs, maxRequests: limit }: RateLimitRule,
+    key: string,
+    now: number
+  ): Promise<RateLimitResult> {
+    const window = Math.floor(now / windowMs);
+    const elapsed = now - window * windowMs;
+
+    const current = await this.store.increment(
+      `${key}:${window}`,
+      windowMs * 2
+    );
+    const previous = await this.store.get(`${key}:${window - 1}`);
+    const estimate = previous * (1 - elapsed / windowMs) + current;
+
+    const allowed = estimate <= limit;
+    return {
+      allowed,
+      rule: pattern,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - estimate)),
+      windowMs,
+      resetMs: windowMs - elapsed,
+      retryAfterMs: allowed
+        ? 0
+        : getRetryAfterMs(limit, previous, current, elapsed, windowMs),
+    };
+  }
+}
+
+/**
+ * Picks the result to report: the rejection with the longest wait, else
+ * the bucket with the least room left
+ * @param results Results of the buckets a request counted against
+ */
+export function getMostRestrictive(
+  results: RateLimitResult[]
+): RateLimitResult {
+  const rejected = results.filter((result) => !result.allowed);
+  if (rejected.length > 0) {
+    return rejected.reduce((a, b) => (b.retryAfterMs > a.retryAfterMs ? b : a));
+  }
+  return results.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+}
+
+/**
+ * Buckets a request counts against: the JWT user (if any) and the client
+ * IP (if known). Counting them separately keeps a user from escaping the
+ * limit by sending a different X-Forwarded-For on every request.
+ */
+function getBucketKeys(identity: RateLimitIdentity): string[] {
+  const keys: string[] = [];
+  if (identity.userId !== undefined || identity.appId !== undefined) {
+    keys.push(
+      [
+        "user",
+        identity.tenant ?? "-",
+        identity.appId ?? "-",
+        identity.userId ?? "-",
+      ].join(":")
+    );
+  }
+  const ip = identity.ip ?? UNKNOWN_IP;
+  if (ip !== UNKNOWN_IP || keys.length === 0) {
+    keys.push(`ip:${ip}`);
+  }
+  return keys;
+}
+
+/**
+ * Time until the sliding estimate leaves room for one more request,
+ * assuming no further requests arrive
+ */
+function getRetryAfterMs(
+  limit: number,
+  previous: number,
+  current: number,
+  elapsed: number,
+  windowMs: number
+): number {
+  const target = limit - 1;
+
+  // Enough room once the previous window has slid out far enough
+  if (current <= target && previous > 0) {
+    const delay = windowMs * (1 - (target - current) / previous) - elapsed;
+    return Math.max(0, Math.ceil(delay));
+  }
+
+  // Otherwise wait for the next window, where this one becomes "previous"
+  const nextWindowDelay =
+    target > 0 ? windowMs * (1 - target / current) : windowMs;
+  return Math.ceil(windowMs - elapsed + nextWindowDelay);
+}
+
+/**
+ * Singleton instance of the rate limiter
+ */
+let rateLimiterInstance: RateLimiter | null = null;
+
+/**
+ * Gets the rate limiter instance
+ */
+export function getRateLimiter(): RateLimiter {
+  if (!rateLimiterInstance) {
+    rateLimiterInstance = new RateLimiter();
+  }
+  return rateLimiterInstance;
+}
+
+/**
+ * Replaces the store used by the rate limiter (e.g. with a shared Redis
+ * store so limits hold across instances)
+ *
+ * @example
+ * ```ts
+ * setRateLimitStore(createRedisRateLimitStore(new Redis(process.env.REDIS_URL)));
+ * ```
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  rateLimiterInstance = new RateLimiter(RATE_LIMIT_CONFIG, store);
+}
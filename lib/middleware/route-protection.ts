@@ -0,0 +1,64 @@
+/**
+ * Route Protection
+ *
+ * Decides how the middleware treats a path, based on ROUTE_PROTECTION
+ * (see lib/middleware/security.ts):
+ *
+ * - public: no JWT required (the route may have its own auth, e.g.
+ *   /api/metrics)
+ * - authenticated: JWT required (the default for unlisted paths)
+ * - dev: only reachable while the development JWT issuer is enabled
+ *
+ * Also strips the reserved `x-ampeco-*` request headers, which only the
+ * middleware may set after verifying the JWT.
+ */
+
+import { ROUTE_PROTECTION } from "@/lib/middleware/security";
+import { matchesPath } from "@/lib/middleware/rate-limit";
+
+/**
+ * How a route is protected
+ */
+export type RouteAccess = "public" | "authenticated" | "dev";
+
+/**
+ * Protection of one path pattern
+ */
+export interface RouteProtectionRule {
+  /** Path pattern (`*` matches one segment, a trailing `**` any number) */
+  pattern: string;
+  access: RouteAccess;
+}
+
+/**
+ * Prefix of the request headers carrying the verified JWT context
+ */
+export const RESERVED_HEADER_PREFIX = "x-ampeco-";
+
+/**
+ * Gets the protection of a path (first matching rule wins)
+ * @param pathname Request path
+ * @returns Access level; "authenticated" if no rule matches
+ */
+export function getRouteAccess(pathname: string): RouteAccess {
+  const rule = ROUTE_PROTECTION.find(({ pattern }) =>
+    matchesPath(pattern, pathname)
+  );
+  return rule?.access ?? "authenticated";
+}
+
+/**
+ * Copies request headers without the reserved `x-ampeco-*` namespace, so a
+ * client cannot pass a forged JWT context to the route handlers
+ * @param headers Incoming request headers
+ * @returns Headers safe to forward
+ */
+export function stripReservedHeaders(headers: Headers): Headers {
+  const stripped = new Headers(headers);
+  Array.from(stripped.keys()).forEach((name) => {
+    if (name.toLowerCase().startsWith(RESERVED_HEADER_PREFIX)) {
+      stripped.delete(name);
+    }
+  });
+  return stripped;
+}
@@ -5,6 +5,9 @@
  * rate limiting, and input sanitization.
  */
 
+import type { RateLimitConfig } from "@/lib/middleware/rate-limit";
+import type { RouteProtectionRule } from "@/lib/middleware/route-protection";
+
 /**
  * Validates if a domain is an allowed AMPECO domain
  * @param domain Domain to validate
@@ -44,11 +47,42 @@ export function validateOrigin(origin: string | null): boolean {
 }
 
 /**
- * Rate limiting configuration
- * Note: For production, use a proper rate limiting service like Upstash
+ * Rate limiting configuration, enforced on /api routes by the middleware
+ * (see lib/middleware/rate-limit.ts)
+ *
+ * `windowMs`/`maxRequests` apply to every API route without a more specific
+ * rule. Rules are matched in order against the request path; `*` matches
+ * one segment and a trailing `**` any number of segments.
+ * Note: The default store is in-memory (per instance). For multi-instance
+ * deployments, plug in a shared store with setRateLimitStore().
  */
-export const RATE_LIMIT_CONFIG = {
+export const RATE_LIMIT_CONFIG: RateLimitConfig = {
   windowMs: 15 * 60 * 1000, // 15 minutes
   maxRequests: 100, // 100 requests per window
+  rules: [
+    // Each batch fans out to up to 20 upstream calls (fetch_all is
+    // rejected in batch items)
+    { pattern: "/api/batch", windowMs: 15 * 60 * 1000, maxRequests: 20 },
+  ],
 };
 
+/**
+ * Route protection, enforced by the middleware
+ * (see lib/middleware/route-protection.ts)
+ *
+ * Rules are matched in order; paths without a rule require a valid JWT.
+ * Static assets (_next/static, _next/image, favicon and image/CSS/JS files
+ * outside /api) are excluded by the middleware matcher and never reach this
+ * table; /api paths always do, whatever their extension.
+ */
+export const ROUTE_PROTECTION: RouteProtectionRule[] = [
+  // Health and readiness checks for load balancers
+  { pattern: "/api/health", access: "public" },
+  { pattern: "/api/ready", access: "public" },
+  // Protected by METRICS_TOKEN in the route
+  { pattern: "/api/metrics", access: "public" },
+  // Development JWT issuer (DEV_JWT_ISSUER)
+  { pattern: "/api/dev/**", access: "dev" },
+  // Other Next.js internals
+  { pattern: "/_next/**", access: "public" },
+];
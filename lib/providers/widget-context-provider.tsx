@@ -0,0 +1,70 @@
+"use client";
+
+/**
+ * Widget Context Provider
+ *
+ * Makes the verified JWT context (user, widget and the page the widget is
+ * placed on) available to client components. The root layout reads it with
+ * getWidgetContext() and passes it down as a prop, so it arrives with the
+ * server-rendered page; the raw JWT is never included.
+ */
+
+import { createContext, ReactNode, useContext } from "react";
+import type { WidgetContext } from "@/lib/auth/get-jwt-context";
+
+const WidgetContextValue = createContext<WidgetContext | null | undefined>(
+  undefined
+);
+
+interface WidgetContextProviderProps {
+  /** Context from getWidgetContext() (null outside a verified request) */
+  value: WidgetContext | null;
+  children: ReactNode;
+}
+
+export function WidgetContextProvider({
+  value,
+  children,
+}: WidgetContextProviderProps) {
+  return (
+    <WidgetContextValue.Provider value={value}>
+      {children}
+    </WidgetContextValue.Provider>
+  );
+}
+
+/**
+ * Reads the widget context
+ *
+ * @example
+ * ```tsx
+ * const widget = useWidgetContext();
+ * // On a charge point page, show only that charge point
+ * const { data } = useGet(
+ *   widget?.resourceId
+ *     ? `/api/charge-points/v1.0/${widget.resourceId}`
+ *     : "/api/charge-points/v1.0"
+ * );
+ * ```
+ * @returns Widget context, or null if the request carried no verified JWT
+ * @throws Error if used outside WidgetContextProvider
+ */
+export function useWidgetContext(): WidgetContext | null {
+  const context = useContext(WidgetContextValue);
+  if (context === undefined) {
+    throw new Error(
+      "useWidgetContext must be used within WidgetContextProvider"
+    );
+  }
+  return context;
+}
+
+/**
+ * Checks if the current user is impersonated by support staff
+ *
+ * Unlike useWidgetContext, also works outside WidgetContextProvider
+ * (returns false), so the generic hooks can use it anywhere.
+ */
+export function useIsImpersonating(): boolean {
+  return useContext(WidgetContextValue)?.impersonate ?? false;
+}
@@ -0,0 +1,223 @@
+/**
+ * API Error Types
+ *
+ * Shared error class and response envelope used by the API service,
+ * the catch-all proxy route and the client hooks. Kept free of
+ * server-only imports so client components can use it.
+ */
+
+/**
+ * Stable error codes returned in the error envelope
+ */
+export const API_ERROR_CODES = {
+  BAD_REQUEST: "bad_request",
+  UNAUTHORIZED: "unauthorized",
+  FORBIDDEN: "forbidden",
+  CSRF_FAILED: "csrf_failed",
+  IMPERSONATION_BLOCKED: "impersonation_blocked",
+  IMPERSONATION_CONFIRMATION_REQUIRED: "impersonation_confirmation_required",
+  NOT_FOUND: "not_found",
+  CONFLICT: "conflict",
+  VALIDATION_FAILED: "validation_failed",
+  RATE_LIMITED: "rate_limited",
+  CANCELLED: "request_cancelled",
+  UPSTREAM_ERROR: "upstream_error",
+  UPSTREAM_UNAVAILABLE: "upstream_unavailable",
+  INTERNAL_ERROR: "internal_error",
+} as const;
+
+export type ApiErrorCode =
+  (typeof API_ERROR_CODES)[keyof typeof API_ERROR_CODES];
+
+/**
+ * API Error response
+ */
+export interface ApiError {
+  message: string;
+  errors?: Record<string, string[]>;
+  status?: number;
+  code?: ApiErrorCode;
+  requestId?: string;
+}
+
+/**
+ * Error envelope returned by the proxy for every failed request
+ */
+export interface ApiErrorEnvelope {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    status: number;
+    errors?: Record<string, string[]>;
+    request_id?: string;
+  };
+}
+
+/**
+ * Error thrown by ApiService and the client hooks
+ */
+export class ApiRequestError extends Error implements ApiError {
+  readonly status?: number;
+  readonly code: ApiErrorCode;
+  readonly errors?: Record<string, string[]>;
+  readonly requestId?: string;
+
+  constructor(
+    message: string,
+    options: {
+      status?: number;
+      code?: ApiErrorCode;
+      errors?: Record<string, string[]>;
+      requestId?: string;
+    } = {}
+  ) {
+    super(message);
+    this.name = "ApiRequestError";
+    this.status = options.status;
+    this.code =
+      options.code ??
+      (options.status
+        ? errorCodeForStatus(options.status)
+        : API_ERROR_CODES.UPSTREAM_UNAVAILABLE);
+    this.errors = options.errors;
+    this.requestId = options.requestId;
+  }
+}
+
+/**
+ * Maps an HTTP status to a stable error code
+ * @param status HTTP status code
+ * @returns Error code
+ */
+export function errorCodeForStatus(status: number): ApiErrorCode {
+  switch (status) {
+    case 400:
+      return API_ERROR_CODES.BAD_REQUEST;
+    case 401:
+      return API_ERROR_CODES.UNAUTHORIZED;
+    case 403:
+      return API_ERROR_CODES.FORBIDDEN;
+    case 404:
+      return API_ERROR_CODES.NOT_FOUND;
+    case 409:
+      return API_ERROR_CODES.CONFLICT;
+    case 422:
+      return API_ERROR_CODES.VALIDATION_FAILED;
+    case 429:
+      return API_ERROR_CODES.RATE_LIMITED;
+    case 499:
+      return API_ERROR_CODES.CANCELLED;
+    case 502:
+    case 503:
+    case 504:
+      return API_ERROR_CODES.UPSTREAM_UNAVAILABLE;
+    default:
+      return status >= 500
+        ? API_ERROR_CODES.UPSTREAM_ERROR
+        : API_ERROR_CODES.BAD_REQUEST;
+  }
+}
+
+/**
+ * Checks if error is an ApiRequestError
+ */
+export function isApiRequestError(error: unknown): error is ApiRequestError {
+  return error instanceof ApiRequestError;
+}
+
+/**
+ * Creates the error thrown when the caller aborts a request
+ */
+export function createCancelledError(): ApiRequestError {
+  // 499: nginx's "client closed request"
+  return new ApiRequestError("Request was cancelled", {
+    status: 499,
+    code: API_ERROR_CODES.CANCELLED,
+  });
+}
+
+/**
+ * Checks if error is a cancelled request (not a failure)
+ */
+export function isCancelledError(error: unknown): boolean {
+  return (
+    isApiRequestError(error) && error.code === API_ERROR_CODES.CANCELLED
+  );
+}
+
+/**
+ * Converts any thrown value into an HTTP status and error envelope
+ * @param error Thrown value
+ * @param fallbackMessage Message used when the error has none
+ * @returns Status code and envelope body
+ */
+export function toApiErrorEnvelope(
+  error: unknown,
+  fallbackMessage: string
+): { status: number; body: ApiErrorEnvelope } {
+  if (isApiRequestError(error)) {
+    // Network failures have no upstream status
+    const status = error.status ?? 502;
+    return {
+      status,
+      body: {
+        error: {
+          code: error.code,
+          message: error.message || fallbackMessage,
+          status,
+          ...(error.errors && { errors: error.errors }),
+          ...(error.requestId && { request_id: error.requestId }),
+        },
+      },
+    };
+  }
+
+  return {
+    status: 500,
+    body: {
+      error: {
+        code: API_ERROR_CODES.INTERNAL_ERROR,
+        message: error instanceof Error ? error.message : fallbackMessage,
+        status: 500,
+      },
+    },
+  };
+}
+
+/**
+ * Builds an ApiRequestError from a failed proxy response
+ *
+ * Understands the proxy error envelope, raw AMPECO error bodies
+ * ({ message, errors }) and non-JSON bodies.
+ * @param response Failed fetch response
+ * @param fallbackMessage Message used when the body has none
+ * @returns Error to throw
+ */
+export async function parseApiErrorResponse(
+  response: Response,
+  fallbackMessage: string
+): Promise<ApiRequestError> {
+  const message = `${fallbackMessage}: ${
+    response.statusText || response.status
+  }`;
+  const contentType = response.headers.get("content-type");
+
+  if (!contentType?.includes("application/json")) {
+    return new ApiRequestError(message, { status: response.status });
+  }
+
+  try {
+    const body = await response.json();
+    const details =
+      body?.error && typeof body.error === "object" ? body.error : body;
+
+    return new ApiRequestError(details?.message || message, {
+      status: response.status,
+      code: details?.code,
+      errors: details?.errors,
+      requestId: details?.request_id,
+    });
+  } catch {
+    return new ApiRequestError(message, { status: response.status });
+  }
+}
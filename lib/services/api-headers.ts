@@ -0,0 +1,22 @@
+/**
+ * API Request Headers
+ *
+ * Cookie and header names shared by the middleware, the proxy routes and
+ * the client hooks. Kept free of server-only imports so client components
+ * can use them.
+ */
+
+/**
+ * Name of the cookie holding the CSRF token (readable by the hooks)
+ */
+export const CSRF_COOKIE_NAME = "__Host-ampeco_csrf";
+
+/**
+ * Header the hooks send the CSRF token in
+ */
+export const CSRF_HEADER = "x-csrf-token";
+
+/**
+ * Header the client sends once the user confirmed a change
+ */
+export const IMPERSONATION_CONFIRM_HEADER = "x-impersonation-confirmed";
@@ -7,6 +7,34 @@
 
 import { getAmpecoConfig } from "@/lib/config/ampeco";
 import { getJwtToken } from "@/lib/auth/get-jwt-context";
+import {
+  serializeQuery,
+  toSearchParams,
+  type QueryInput,
+} from "@/lib/utils/query-string";
+import { mapWithConcurrency } from "@/lib/utils/concurrency";
+import { REQUEST_ID_HEADER, createLogger } from "@/lib/utils/logger";
+import { getEndpointTemplate, getMetrics } from "@/lib/services/metrics";
+import { getMockBackend } from "@/lib/services/mock-backend";
+import {
+  IDEMPOTENT_METHODS,
+  RetryBudget,
+  computeBackoff,
+  isRetryableStatus,
+  parseRetryAfter,
+  sleep,
+  type RetryPolicy,
+} from "@/lib/services/retry";
+import {
+  ApiRequestError,
+  createCancelledError,
+  isCancelledError,
+  parseApiErrorResponse,
+} from "@/lib/services/api-error";
+
+export type { ApiError } from "@/lib/services/api-error";
+
+const logger = createLogger("api");
 
 /**
  * API Response wrapper
@@ -22,23 +50,78 @@ export interface ApiResponse<T> {
 }
 
 /**
- * API Error response
+ * Combined meta of a fetch-all response
+ */
+export interface AllPagesMeta {
+  current_page: number;
+  last_page: number;
+  per_page: number;
+  total: number;
+  pages_fetched: number;
+  truncated: boolean;
+}
+
+/**
+ * Limits for fetching every page of a collection
  */
-export interface ApiError {
-  message: string;
-  errors?: Record<string, string[]>;
-  status?: number;
+export interface FetchAllOptions {
+  pageSize?: number;
+  concurrency?: number;
+  maxItems?: number;
+  maxPages?: number;
 }
 
+/**
+ * HTTP methods supported by the AMPECO API
+ */
+export type HttpMethod = "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+
 /**
  * Request options for API calls
  */
 export interface ApiRequestOptions {
-  method?: "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+  method?: HttpMethod;
   body?: unknown;
   headers?: Record<string, string>;
-  params?: Record<string, string | number | boolean>;
+  params?: QueryInput;
   jwtToken?: string; // Optional override for JWT token
+  timeoutMs?: number; // Time to response headers, per attempt
+  retries?: number; // Overrides max retries (also enables them for POST/PATCH)
+  signal?: AbortSignal; // Aborts the upstream call (e.g. request.signal)
+  requestId?: string; // Sent upstream as X-Request-Id and added to logs
+  metricsEndpoint?: string; // Error metrics label (default: endpoint template)
+}
+
+/**
+ * Result of a (possibly conditional) GET
+ */
+export type ConditionalResult<T> =
+  | { notModified: true; etag: string | null }
+  | { notModified: false; data: T; etag: string | null };
+
+/**
+ * A GET shared by concurrent callers
+ *
+ * The upstream call has its own controller and is only aborted once every
+ * caller waiting on it has aborted.
+ */
+interface InFlightRequest {
+  promise: Promise<ConditionalResult<unknown>>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * Connection and retry settings for ApiService
+ */
+export interface ApiServiceOptions {
+  apiToken: string;
+  apiBase: string;
+  tenantUrl: string;
+  timeoutMs: number;
+  retry: RetryPolicy;
+  /** Transport (defaults to global fetch, or the mock backend in mock mode) */
+  fetch: typeof fetch;
 }
 
 /**
@@ -48,12 +131,36 @@ export class ApiService {
   private apiToken: string;
   private apiBase: string;
   private tenantUrl: string;
+  private timeoutMs: number;
+  private retryPolicy: RetryPolicy;
+  private retryBudget = new RetryBudget();
+  private inFlight = new Map<string, InFlightRequest>();
+  private fetchAllDefaults: Required<FetchAllOptions>;
+  private transport: typeof fetch;
 
-  constructor() {
-    const config = getAmpecoConfig();
-    this.apiToken = config.apiToken;
-    this.apiBase = config.urls.apiBase;
-    this.tenantUrl = config.urls.tenant;
+  /**
+   * @param options Overrides for settings read from getAmpecoConfig()
+   * @param tenant Tenant URL whose token and settings to use (defaults to
+   * the default tenant)
+   */
+  constructor(options: Partial<ApiServiceOptions> = {}, tenant?: string) {
+    const config = getAmpecoConfig(tenant);
+    this.apiToken = options.apiToken ?? config.apiToken;
+    this.apiBase = options.apiBase ?? config.urls.apiBase;
+    this.tenantUrl = options.tenantUrl ?? config.urls.tenant;
+    this.timeoutMs = options.timeoutMs ?? config.api.timeoutMs;
+    this.retryPolicy = options.retry ?? {
+      maxRetries: config.api.maxRetries,
+      baseDelayMs: config.api.baseDelayMs,
+      maxDelayMs: config.api.maxDelayMs,
+      maxRetryAfterMs: config.api.maxRetryAfterMs,
+    };
+    this.fetchAllDefaults = config.fetchAll;
+    this.transport =
+      options.fetch ??
+      (config.mock.enabled
+        ? getMockBackend().fetch
+        : (input, init) => fetch(input, init));
   }
 
   /**
@@ -73,19 +180,154 @@ export class ApiService {
   /**
    * Builds URL with query parameters
    */
-  private buildUrl(
-    endpoint: string,
-    params?: Record<string, string | number | boolean>
-  ): string {
-    const url = new URL(`${this.apiBase}/${endpoint}`, this.tenantUrl);
+  private buildUrl(endpoint: string, params?: QueryInput): string {
+    // Segments are encoded so none can add a separator or a dot segment
+    const path = endpoint
+      .split("/")
+      .map((segment) => encodeURIComponent(segment))
+      .join("/");
+    const url = new URL(`${this.apiBase}/${path}`, this.tenantUrl);
+    url.search = serializeQuery(params);
+    return url.toString();
+  }
 
-    if (params) {
-      Object.entries(params).forEach(([key, value]) => {
-        url.searchParams.append(key, String(value));
-      });
+  /**
+   * Performs a single fetch with a timeout on the response headers
+   *
+   * The caller's signal stays linked after the headers arrive, so aborting
+   * it also stops reading (or streaming) the body.
+   */
+  private async fetchOnce(
+    url: string,
+    init: RequestInit,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    if (signal?.aborted) {
+      throw createCancelledError();
     }
 
-    return url.toString();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    signal?.addEventListener("abort", () => controller.abort(), {
+      once: true,
+    });
+
+    try {
+      return await this.transport(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw createCancelledError();
+      }
+      if (controller.signal.aborted) {
+        throw new ApiRequestError(
+          `API request timed out after ${timeoutMs}ms`,
+          { status: 504 }
+        );
+      }
+      throw new ApiRequestError(
+        `API request failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Gets the delay before retrying a failed response
+   * @returns Delay in milliseconds, or null if the request must not be retried
+   */
+  private getRetryDelay(response: Response, attempt: number): number | null {
+    if (response.status === 429 || response.status === 503) {
+      const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+      if (retryAfter !== null) {
+        return retryAfter <= this.retryPolicy.maxRetryAfterMs
+          ? retryAfter
+          : null;
+      }
+    }
+    return computeBackoff(attempt, this.retryPolicy);
+  }
+
+  /**
+   * Fetches with per-attempt timeout and retries
+   *
+   * Idempotent methods are retried on network errors, timeouts and
+   * retryable statuses (429, 5xx) using exponential backoff with jitter,
+   * honoring Retry-After on 429/503 and the shared retry budget.
+   * Cancellation is never retried.
+   * @returns Final upstream response (may be non-2xx)
+   * @throws ApiRequestError if the last attempt failed without a response
+   */
+  private async fetchWithRetry(
+    url: string,
+    init: RequestInit,
+    method: HttpMethod,
+    options: Pick<
+      ApiRequestOptions,
+      "timeoutMs" | "retries" | "signal" | "requestId"
+    >
+  ): Promise<Response> {
+    const { signal, requestId } = options;
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const maxRetries =
+      options.retries ??
+      (IDEMPOTENT_METHODS.includes(method) ? this.retryPolicy.maxRetries : 0);
+
+    this.retryBudget.deposit();
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response | null = null;
+      let failure: ApiRequestError | null = null;
+
+      try {
+        response = await this.fetchOnce(url, init, timeoutMs, signal);
+      } catch (error) {
+        if (isCancelledError(error)) {
+          throw error;
+        }
+        failure = error as ApiRequestError;
+      }
+
+      if (response && !isRetryableStatus(response.status)) {
+        return response;
+      }
+
+      const delay = response
+        ? this.getRetryDelay(response, attempt)
+        : computeBackoff(attempt, this.retryPolicy);
+
+      if (
+        attempt >= maxRetries ||
+        delay === null ||
+        !this.retryBudget.withdraw()
+      ) {
+        if (response) {
+          return response;
+        }
+        throw failure;
+      }
+
+      // Release the failed attempt's connection before retrying
+      await response?.body?.cancel();
+
+      logger.info("Retrying upstream request", {
+        requestId,
+        method,
+        url,
+        attempt: attempt + 1,
+        maxRetries,
+        delayMs: delay,
+        reason: response ? `status ${response.status}` : failure?.message,
+      });
+
+      await sleep(delay, signal);
+      if (signal?.aborted) {
+        throw createCancelledError();
+      }
+    }
   }
 
   /**
@@ -95,52 +337,214 @@ export class ApiService {
     endpoint: string,
     options: ApiRequestOptions = {}
   ): Promise<T> {
-    const { method = "GET", body, headers = {}, params, jwtToken } = options;
+    const result = await this.execute<T>(endpoint, options);
+    return result.notModified ? ({} as T) : result.data;
+  }
+
+  /**
+   * Fetches every page of a paginated collection and merges them
+   *
+   * Reads `meta.last_page` from the first page, then fetches the rest with
+   * bounded parallelism. Stops at `maxPages` pages or `maxItems` items and
+   * flags the result as truncated.
+   * @returns Merged `data` array with combined meta
+   */
+  async requestAllPages<T>(
+    endpoint: string,
+    options: Omit<ApiRequestOptions, "method" | "body"> & FetchAllOptions = {}
+  ): Promise<{ data: T[]; meta: AllPagesMeta }> {
+    const { pageSize, concurrency, maxItems, maxPages, ...requestOptions } = {
+      ...this.fetchAllDefaults,
+      ...options,
+    };
+
+    const fetchPage = (page: number) => {
+      const params = toSearchParams(requestOptions.params);
+      params.set("page", String(page));
+      params.set("per_page", String(pageSize));
+      return this.request<ApiResponse<T[]>>(endpoint, {
+        ...requestOptions,
+        method: "GET",
+        params,
+      });
+    };
+
+    const first = await fetchPage(1);
+    const lastPage = first.meta?.last_page ?? 1;
+    const pageCount = Math.min(
+      lastPage,
+      maxPages,
+      Math.ceil(maxItems / pageSize)
+    );
+
+    const rest = await mapWithConcurrency(
+      Array.from({ length: Math.max(0, pageCount - 1) }, (_, i) => i + 2),
+      concurrency,
+      fetchPage
+    );
+
+    const items = [first, ...rest].flatMap((page) => page.data ?? []);
+    const data = items.slice(0, maxItems);
+
+    logger.debug("Fetched all pages", {
+      requestId: options.requestId,
+      endpoint,
+      pages: pageCount,
+      lastPage,
+      items: data.length,
+    });
+
+    return {
+      data,
+      meta: {
+        current_page: 1,
+        last_page: 1,
+        per_page: data.length,
+        total: first.meta?.total ?? data.length,
+        pages_fetched: pageCount,
+        truncated: pageCount < lastPage || items.length > maxItems,
+      },
+    };
+  }
+
+  /**
+   * Makes a conditional GET using If-None-Match
+   * @param endpoint API endpoint
+   * @param options Request options
+   * @param etag ETag from a previous response (omit for a plain GET)
+   * @returns Fresh data with its ETag, or notModified if the ETag still matches
+   */
+  async requestConditional<T>(
+    endpoint: string,
+    options: Omit<ApiRequestOptions, "method" | "body"> = {},
+    etag?: string | null
+  ): Promise<ConditionalResult<T>> {
+    return this.execute<T>(endpoint, {
+      ...options,
+      method: "GET",
+      headers: { ...options.headers, ...(etag && { "If-None-Match": etag }) },
+    });
+  }
+
+  /**
+   * Resolves the token and URL, coalescing concurrent identical GETs
+   */
+  private async execute<T>(
+    endpoint: string,
+    options: ApiRequestOptions
+  ): Promise<ConditionalResult<T>> {
+    const { method = "GET", headers = {}, params, jwtToken } = options;
 
     // Get JWT token if not provided (from context)
     const token = jwtToken || (await getJwtToken());
 
+    if (options.signal?.aborted) {
+      throw createCancelledError();
+    }
+
     // Build URL
     const url = this.buildUrl(endpoint, params);
 
+    if (method !== "GET") {
+      return this.send<T>(endpoint, url, token, options);
+    }
+
+    // Concurrent identical GETs for the same identity share one upstream call
+    const key = getInFlightKey(method, url, token, headers);
+    let entry = this.inFlight.get(key);
+    if (entry) {
+      logger.debug("Coalesced with in-flight GET", {
+        requestId: options.requestId,
+        endpoint,
+      });
+    } else {
+      const controller = new AbortController();
+      const promise = this.send<unknown>(endpoint, url, token, {
+        ...options,
+        signal: controller.signal,
+      }).finally(() => {
+        // A newer call may have taken the key after this one was aborted
+        if (this.inFlight.get(key) === created) {
+          this.inFlight.delete(key);
+        }
+      });
+      const created: InFlightRequest = { promise, controller, waiters: 0 };
+      entry = created;
+      this.inFlight.set(key, entry);
+    }
+
+    return this.waitFor(key, entry, options.signal) as Promise<
+      ConditionalResult<T>
+    >;
+  }
+
+  /**
+   * Waits for a shared GET on behalf of one caller
+   *
+   * An aborting caller is rejected on its own; the upstream call is aborted
+   * only when no caller is left waiting for it. An aborted call is dropped
+   * from the in-flight map right away so new callers start a fresh one.
+   */
+  private waitFor(
+    key: string,
+    entry: InFlightRequest,
+    signal?: AbortSignal
+  ): Promise<ConditionalResult<unknown>> {
+    entry.waiters++;
+    if (!signal) {
+      return entry.promise;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        entry.waiters--;
+        if (entry.waiters === 0) {
+          if (this.inFlight.get(key) === entry) {
+            this.inFlight.delete(key);
+          }
+          entry.controller.abort();
+        }
+        reject(createCancelledError());
+      };
+
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener("abort", onAbort, { once: true });
+      }
+
+      entry.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener("abort", onAbort));
+    });
+  }
+
+  /**
+   * Sends a JSON request upstream and parses the response
+   */
+  private async send<T>(
+    endpoint: string,
+    url: string,
+    token: string | null,
+    options: ApiRequestOptions
+  ): Promise<ConditionalResult<T>> {
+    const { method = "GET", body, headers = {}, requestId } = options;
+    const log = logger.child({ requestId, method, endpoint });
+
     // Build headers
-    const authHeader = this.buildAuthHeader(token);
     const requestHeaders: HeadersInit = {
       "Content-Type": "application/json",
       Accept: "application/json",
-      Authorization: authHeader,
+      Authorization: this.buildAuthHeader(token),
+      ...(requestId && { [REQUEST_ID_HEADER]: requestId }),
       ...headers,
     };
 
-    // Debug logging
-    const isDevelopment = process.env.NODE_ENV === "development";
-    if (isDevelopment) {
-      console.log("[API Request]");
-      console.log("  Method:", method);
-      console.log("  URL:", url);
-      console.log("  Endpoint:", endpoint);
-      console.log("  Params:", params || "none");
-      console.log("  JWT Token Present:", token ? "yes" : "no");
-      console.log(
-        "  Auth Header Format:",
-        authHeader.startsWith(`Bearer ${this.apiToken}:`)
-          ? "impersonation (api_token:jwt_token)"
-          : "standard (api_token only)"
-      );
-      if (token) {
-        // Log first/last few chars of tokens for debugging (mask middle)
-        const apiTokenPreview =
-          this.apiToken.substring(0, 8) +
-          "..." +
-          this.apiToken.substring(this.apiToken.length - 4);
-        const jwtTokenPreview =
-          token.substring(0, 20) + "..." + token.substring(token.length - 10);
-        console.log("  API Token Preview:", apiTokenPreview);
-        console.log("  JWT Token Preview:", jwtTokenPreview);
-      } else {
-        console.log("  ⚠️  WARNING: No JWT token found!");
-      }
-    }
+    log.debug("Upstream request", {
+      url,
+      impersonating: !!token,
+      ...(body !== undefined && method !== "GET" && { body }),
+    });
 
     // Build request options
     const requestOptions: RequestInit = {
@@ -150,18 +554,29 @@ export class ApiService {
 
     if (body && method !== "GET") {
       requestOptions.body = JSON.stringify(body);
-      if (isDevelopment) {
-        console.log("  Request Body:", JSON.stringify(body, null, 2));
-      }
     }
 
+    const startedAt = Date.now();
+
     try {
-      const response = await fetch(url, requestOptions);
+      const response = await this.fetchWithRetry(
+        url,
+        requestOptions,
+        method,
+        options
+      );
 
-      if (isDevelopment) {
-        console.log("[API Response]");
-        console.log("  Status:", response.status, response.statusText);
-        console.log("  OK:", response.ok);
+      const upstreamRequestId = getUpstreamRequestId(response);
+      const etag = response.headers.get("etag");
+
+      log.debug("Upstream response", {
+        status: response.status,
+        durationMs: Date.now() - startedAt,
+        upstreamRequestId,
+      });
+
+      if (response.status === 304) {
+        return { notModified: true, etag };
       }
 
       // Handle non-JSON responses
@@ -169,62 +584,188 @@ export class ApiService {
       if (!contentType?.includes("application/json")) {
         if (!response.ok) {
           const errorText = await response.text();
-          if (isDevelopment) {
-            console.log("  Error Response (non-JSON):", errorText);
-          }
-          throw new Error(
-            `API request failed: ${response.status} ${response.statusText}`
+          log.debug("Upstream error response (non-JSON)", {
+            body: errorText,
+          });
+          throw new ApiRequestError(
+            `API request failed: ${response.status} ${response.statusText}`,
+            { status: response.status, requestId: upstreamRequestId }
           );
         }
-        return {} as T;
+        return { notModified: false, data: {} as T, etag };
       }
 
       const data = await response.json();
 
       if (!response.ok) {
-        if (isDevelopment) {
-          console.log("  Error Response:", JSON.stringify(data, null, 2));
-        }
-        const error: ApiError = {
-          message: data.message || `API request failed: ${response.status}`,
-          errors: data.errors,
-          status: response.status,
-        };
-        throw error;
+        log.debug("Upstream error response", { body: data });
+        throw new ApiRequestError(
+          data.message || `API request failed: ${response.status}`,
+          {
+            status: response.status,
+            errors: data.errors,
+            requestId: upstreamRequestId,
+          }
+        );
       }
 
-      if (isDevelopment) {
-        console.log("  ✅ Success");
+      return { notModified: false, data: data as T, etag };
+    } catch (error) {
+      // Aborted while reading the body
+      if (options.signal?.aborted && !isCancelledError(error)) {
+        error = createCancelledError();
       }
 
-      return data as T;
-    } catch (error) {
-      if (isDevelopment) {
-        console.log("  ❌ Error:", error);
+      const durationMs = Date.now() - startedAt;
+      if (isCancelledError(error)) {
+        log.info("Upstream request cancelled", { durationMs });
+      } else {
+        log.warn("Upstream request failed", { durationMs, error });
+        recordUpstreamError(
+          options.metricsEndpoint ?? getEndpointTemplate(endpoint),
+          method,
+          error instanceof ApiRequestError ? error.status : undefined
+        );
       }
-      if (error instanceof Error && "status" in error) {
+
+      if (error instanceof ApiRequestError) {
         throw error;
       }
-      throw new Error(
+      // Network failure or unreadable body - no upstream status available
+      throw new ApiRequestError(
         `API request failed: ${
           error instanceof Error ? error.message : "Unknown error"
         }`
       );
     }
   }
+
+  /**
+   * Makes an authenticated API request and returns the raw upstream response
+   *
+   * Used for non-JSON resources (CSV exports, PDF invoices, images).
+   * The body is not read, so it can be streamed to the client without
+   * buffering. Non-2xx responses still throw ApiRequestError.
+   */
+  async requestStream(
+    endpoint: string,
+    options: Omit<ApiRequestOptions, "body"> = {}
+  ): Promise<Response> {
+    const {
+      method = "GET",
+      headers = {},
+      params,
+      jwtToken,
+      requestId,
+    } = options;
+
+    const token = jwtToken || (await getJwtToken());
+    const url = this.buildUrl(endpoint, params);
+    const log = logger.child({ requestId, method, endpoint });
+
+    log.debug("Upstream stream request", { url });
+
+    const response = await this.fetchWithRetry(
+      url,
+      {
+        method,
+        headers: {
+          Accept: "*/*",
+          Authorization: this.buildAuthHeader(token),
+          ...(requestId && { [REQUEST_ID_HEADER]: requestId }),
+          ...headers,
+        },
+      },
+      method,
+      options
+    );
+
+    log.debug("Upstream stream response", {
+      status: response.status,
+      contentType: response.headers.get("content-type"),
+    });
+
+    if (!response.ok) {
+      recordUpstreamError(
+        options.metricsEndpoint ?? getEndpointTemplate(endpoint),
+        method,
+        response.status
+      );
+      const error = await parseApiErrorResponse(
+        response,
+        "API request failed"
+      );
+      throw new ApiRequestError(error.message, {
+        status: error.status,
+        errors: error.errors,
+        requestId: getUpstreamRequestId(response),
+      });
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Counts a failed upstream call (status 0 when no response was received)
+ */
+function recordUpstreamError(
+  endpoint: string,
+  method: HttpMethod,
+  status: number | undefined
+): void {
+  getMetrics().upstreamErrors.inc({
+    endpoint,
+    method,
+    status: status ?? 0,
+  });
+}
+
+/**
+ * Builds the deduplication key for an in-flight request
+ *
+ * Includes the JWT so results are never shared across identities, and
+ * sorts query parameters so equivalent URLs map to the same key.
+ */
+function getInFlightKey(
+  method: HttpMethod,
+  url: string,
+  token: string | null,
+  headers: Record<string, string>
+): string {
+  const normalized = new URL(url);
+  normalized.searchParams.sort();
+  return JSON.stringify([method, normalized.toString(), token, headers]);
+}
+
+/**
+ * Reads the upstream request id so errors can be correlated with AMPECO logs
+ */
+function getUpstreamRequestId(response: Response): string | undefined {
+  return (
+    response.headers.get("x-request-id") ||
+    response.headers.get("x-correlation-id") ||
+    undefined
+  );
 }
 
 /**
- * Singleton instance of API service
+ * API service instances by tenant URL ("" for the default tenant)
  */
-let apiServiceInstance: ApiService | null = null;
+const apiServiceInstances = new Map<string, ApiService>();
 
 /**
- * Gets the API service instance
+ * Gets the API service of a tenant
+ * @param tenantUrl Tenant URL from the JWT context (`x-ampeco-tenant-url`);
+ * defaults to the default tenant
+ * @throws Error if the tenant is not configured
  */
-export function getApiService(): ApiService {
-  if (!apiServiceInstance) {
-    apiServiceInstance = new ApiService();
+export function getApiService(tenantUrl?: string): ApiService {
+  const key = tenantUrl ?? "";
+  let instance = apiServiceInstances.get(key);
+  if (!instance) {
+    instance = new ApiService({}, tenantUrl);
+    apiServiceInstances.set(key, instance);
   }
-  return apiServiceInstance;
+  return instance;
 }
@@ -0,0 +1,173 @@
+/**
+ * Batch Proxy Requests
+ *
+ * Runs several proxied AMPECO calls from one browser round trip with
+ * bounded concurrency. Each item goes through the same pipeline as the
+ * catch-all route and succeeds or fails on its own.
+ */
+
+import type { JwtContext } from "@/lib/auth/get-jwt-context";
+import type { HttpMethod } from "@/lib/services/api";
+import {
+  ApiRequestError,
+  toApiErrorEnvelope,
+  type ApiErrorEnvelope,
+} from "@/lib/services/api-error";
+import {
+  FETCH_ALL_PARAM,
+  assertAuthenticated,
+  executeProxyRequest,
+  type ProxyRequest,
+} from "@/lib/services/proxy";
+import { mapWithConcurrency } from "@/lib/utils/concurrency";
+import { toSearchParams, type QueryParams } from "@/lib/utils/query-string";
+
+/**
+ * Maximum number of items in one batch
+ */
+export const MAX_BATCH_SIZE = 20;
+
+/**
+ * Maximum number of items forwarded upstream at once
+ */
+const BATCH_CONCURRENCY = 4;
+
+const METHODS: HttpMethod[] = ["GET", "POST", "PATCH", "PUT", "DELETE"];
+
+/**
+ * A single call in a batch. `endpoint` may be given as the proxy path
+ * used by the hooks (`/api/charge-points/v1.0`) or the bare AMPECO path.
+ */
+export interface BatchRequestItem {
+  method?: HttpMethod;
+  endpoint: string;
+  params?: QueryParams;
+  body?: unknown;
+}
+
+/**
+ * Outcome of a single call in a batch
+ */
+export type BatchResultItem =
+  | { status: number; data: unknown }
+  | { status: number; error: ApiErrorEnvelope["error"] };
+
+/**
+ * Strips the proxy prefix and leading slashes from an endpoint
+ * @param endpoint Endpoint as sent by the client
+ * @returns Bare AMPECO endpoint
+ */
+export function normalizeBatchEndpoint(endpoint: string): string {
+  return endpoint.replace(/^\/+/, "").replace(/^api\//, "");
+}
+
+/**
+ * Decodes each path segment once, as Next.js does for the catch-all route,
+ * so both routes apply the API policy to the same endpoint
+ * @throws ApiRequestError (400) if a segment is not valid percent-encoding
+ */
+function decodeEndpointPath(path: string): string {
+  try {
+    return path
+      .split("/")
+      .map((segment) => decodeURIComponent(segment))
+      .join("/");
+  } catch {
+    throw new ApiRequestError(`Endpoint "${path}" is not a valid path`, {
+      status: 400,
+    });
+  }
+}
+
+/**
+ * Validates the shape of a batch item
+ */
+function assertValidItem(item: unknown): asserts item is BatchRequestItem {
+  if (
+    !item ||
+    typeof item !== "object" ||
+    typeof (item as BatchRequestItem).endpoint !== "string"
+  ) {
+    throw new ApiRequestError("Batch item must have an endpoint", {
+      status: 400,
+    });
+  }
+
+  const { method } = item as BatchRequestItem;
+  if (method !== undefined && !METHODS.includes(method)) {
+    throw new ApiRequestError(`Unsupported method: ${method}`, {
+      status: 400,
+    });
+  }
+}
+
+/**
+ * Runs a batch of proxied calls
+ * @param items Calls to make
+ * @param context JWT context of the caller
+ * @param options Cancellation signal, request id and impersonation
+ * confirmation shared by all items
+ * @returns One result per item, in order
+ * @throws ApiRequestError without a JWT context, or if the batch itself is
+ * malformed
+ */
+export async function executeBatch(
+  items: unknown,
+  context: JwtContext | null,
+  options: Pick<
+    ProxyRequest,
+    "signal" | "requestId" | "impersonationConfirmed"
+  > = {}
+): Promise<BatchResultItem[]> {
+  assertAuthenticated(context);
+  if (!Array.isArray(items)) {
+    throw new ApiRequestError("Batch body must be an array of requests", {
+      status: 400,
+    });
+  }
+  if (items.length > MAX_BATCH_SIZE) {
+    throw new ApiRequestError(
+      `Batch may contain at most ${MAX_BATCH_SIZE} requests`,
+      { status: 400 }
+    );
+  }
+
+  return mapWithConcurrency(items, BATCH_CONCURRENCY, async (item) => {
+    try {
+      assertValidItem(item);
+
+      // Query strings inline in the endpoint are merged with params
+      const [path, inlineQuery = ""] = normalizeBatchEndpoint(
+        item.endpoint
+      ).split("?");
+      const params = toSearchParams(inlineQuery);
+      toSearchParams(item.params).forEach((value, key) => {
+        params.append(key, value);
+      });
+      params.delete("token");
+      // One fetch-all walks up to AMPECO_FETCH_ALL_MAX_PAGES pages, which
+      // the rate limiter would not see behind a single batch request
+      if (params.has(FETCH_ALL_PARAM)) {
+        throw new ApiRequestError(
+          `${FETCH_ALL_PARAM} is not supported in batch requests`,
+          { status: 400 }
+        );
+      }
+
+      const result = await executeProxyRequest(
+        {
+          method: item.method ?? "GET",
+          endpoint: decodeEndpointPath(path),
+          params,
+          body: item.body,
+          ...options,
+        },
+        context
+      );
+      return { status: result.status, data: result.data };
+    } catch (error) {
+      const { status, body } = toApiErrorEnvelope(error, "Batch item failed");
+      return { status, error: body.error };
+    }
+  });
+}
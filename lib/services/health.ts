@@ -0,0 +1,223 @@
+/**
+ * Readiness Checks
+ *
+ * Backs the deep health check (`/api/health?deep=1` and `/api/ready`):
+ * validates the AMPECO configuration, fetches the JWKS and imports the
+ * signing key, and - when HEALTH_PROBE_ENDPOINT is set - calls a cheap
+ * upstream resource. Every check runs with its own timeout.
+ *
+ * The routes are public, so they serve a memoized report (at most one run
+ * every few seconds, shared by concurrent callers) and only per-check
+ * status; error details go to the logs. In mock mode (AMPECO_MOCK) the
+ * JWKS check is skipped, since the mock tenant has no JWKS.
+ *
+ * Environment:
+ * - HEALTH_PROBE_ENDPOINT: AMPECO endpoint to probe (e.g.
+ *   `charge-points/v2.0?per_page=1`); the probe is skipped when unset
+ * - HEALTH_CHECK_TIMEOUT_MS: timeout per check (default: 5000)
+ */
+
+import { checkPublicKey } from "@/lib/auth/jwt-verifier";
+import { getAmpecoConfig, isMockMode } from "@/lib/config/ampeco";
+import { getApiService } from "@/lib/services/api";
+import { createLogger, redact } from "@/lib/utils/logger";
+
+const logger = createLogger("health");
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+/**
+ * How long a report is served before the checks run again
+ */
+const REPORT_MAX_AGE_MS = 5000;
+
+/**
+ * Outcome of one check
+ */
+export interface HealthCheckResult {
+  status: "ok" | "fail" | "skipped";
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * Outcome of all readiness checks
+ */
+export interface ReadinessReport {
+  status: "ready" | "not_ready";
+  timestamp: string;
+  checks: {
+    config: HealthCheckResult;
+    jwks: HealthCheckResult;
+    upstream: HealthCheckResult;
+  };
+}
+
+/**
+ * Readiness report without error details, for the public routes
+ */
+export interface PublicReadinessReport {
+  status: ReadinessReport["status"];
+  timestamp: string;
+  checks: Record<
+    keyof ReadinessReport["checks"],
+    Omit<HealthCheckResult, "error">
+  >;
+}
+
+/**
+ * Options for runReadinessChecks (defaults come from the environment)
+ */
+export interface ReadinessOptions {
+  timeoutMs?: number;
+  probeEndpoint?: string;
+}
+
+/**
+ * Result of a check that did not run
+ */
+function skipped(reason: string): HealthCheckResult {
+  return { status: "skipped", latencyMs: 0, error: reason };
+}
+
+/**
+ * Runs one check, failing it if it throws or exceeds the timeout
+ */
+async function runCheck(
+  check: (signal: AbortSignal) => Promise<unknown>,
+  timeoutMs: number
+): Promise<HealthCheckResult> {
+  const startedAt = Date.now();
+  const signal = AbortSignal.timeout(timeoutMs);
+  const timeout = new Promise<never>((_, reject) => {
+    signal.addEventListener(
+      "abort",
+      () => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+      { once: true }
+    );
+  });
+
+  try {
+    await Promise.race([check(signal), timeout]);
+    return { status: "ok", latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      status: "fail",
+      latencyMs: Date.now() - startedAt,
+      error: redact(
+        signal.aborted
+          ? `Timed out after ${timeoutMs}ms`
+          : error instanceof Error
+            ? error.message
+            : "Unknown error"
+      ) as string,
+    };
+  }
+}
+
+/**
+ * Runs the readiness checks
+ * @param options Timeout and upstream probe overrides
+ * @returns Per-check status and latency; `ready` only if no check failed
+ */
+export async function runReadinessChecks(
+  options: ReadinessOptions = {}
+): Promise<ReadinessReport> {
+  const envTimeout = Number(process.env.HEALTH_CHECK_TIMEOUT_MS);
+  const timeoutMs =
+    options.timeoutMs ?? (envTimeout > 0 ? envTimeout : DEFAULT_TIMEOUT_MS);
+  const probeEndpoint =
+    options.probeEndpoint ?? process.env.HEALTH_PROBE_ENDPOINT;
+
+  const config = await runCheck(async () => getAmpecoConfig(), timeoutMs);
+  const configured = config.status === "ok";
+
+  const [jwks, upstream] = await Promise.all([
+    !configured
+      ? skipped("Configuration is invalid")
+      : isMockMode()
+        ? skipped("AMPECO_MOCK is enabled")
+        : runCheck((signal) => checkPublicKey(signal), timeoutMs),
+    !configured
+      ? skipped("Configuration is invalid")
+      : probeEndpoint
+        ? runCheck(
+            (signal) =>
+              getApiService().request(probeEndpoint, {
+                signal,
+                timeoutMs,
+                retries: 0,
+              }),
+            timeoutMs
+          )
+        : skipped("HEALTH_PROBE_ENDPOINT is not set"),
+  ]);
+
+  const checks = { config, jwks, upstream };
+  const ready = Object.values(checks).every((check) => check.status !== "fail");
+  if (!ready) {
+    logger.warn("Readiness check failed", { checks });
+  }
+
+  return {
+    status: ready ? "ready" : "not_ready",
+    timestamp: new Date().toISOString(),
+    checks,
+  };
+}
+
+/**
+ * Latest report and the run in progress, shared by all callers
+ */
+let latestReport: { report: ReadinessReport; checkedAt: number } | null = null;
+let pendingReport: Promise<ReadinessReport> | null = null;
+
+/**
+ * Gets a readiness report, running the checks at most once per maxAgeMs
+ * @param maxAgeMs How long a previous report may be reused
+ */
+export async function getReadinessReport(
+  maxAgeMs: number = REPORT_MAX_AGE_MS
+): Promise<ReadinessReport> {
+  if (latestReport && Date.now() - latestReport.checkedAt < maxAgeMs) {
+    return latestReport.report;
+  }
+
+  if (!pendingReport) {
+    pendingReport = runReadinessChecks()
+      .then((report) => {
+        latestReport = { report, checkedAt: Date.now() };
+        return report;
+      })
+      .finally(() => {
+        pendingReport = null;
+      });
+  }
+  return pendingReport;
+}
+
+/**
+ * Strips the error details from a check result
+ */
+function withoutError({
+  status,
+  latencyMs,
+}: HealthCheckResult): Omit<HealthCheckResult, "error"> {
+  return { status, latencyMs };
+}
+
+/**
+ * Strips error details from a report
+ */
+export function toPublicReport(report: ReadinessReport): PublicReadinessReport {
+  const { config, jwks, upstream } = report.checks;
+  return {
+    status: report.status,
+    timestamp: report.timestamp,
+    checks: {
+      config: withoutError(config),
+      jwks: withoutError(jwks),
+      upstream: withoutError(upstream),
+    },
+  };
+}
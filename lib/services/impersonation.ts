@@ -0,0 +1,126 @@
+/**
+ * Impersonation Policy
+ *
+ * Decides what happens to mutating proxy requests (POST, PATCH, PUT,
+ * DELETE) while the JWT has `impersonate: true`, i.e. support staff acting
+ * as an operator:
+ *
+ * - allow: forward as usual
+ * - audit: forward and write an audit log entry (default)
+ * - confirm: reject with 428 unless the request carries
+ *   `X-Impersonation-Confirmed: true`; confirmed requests are audited
+ * - block: reject with 403 (read-only while impersonating)
+ *
+ * Environment:
+ * - AMPECO_IMPERSONATION_POLICY: default mode; API policy rules can
+ *   override it with `impersonation`
+ */
+
+import type { JwtContext } from "@/lib/auth/get-jwt-context";
+import type { ApiPolicyRule } from "@/lib/config/api-policy";
+import type { HttpMethod } from "@/lib/services/api";
+import { API_ERROR_CODES, ApiRequestError } from "@/lib/services/api-error";
+import { IMPERSONATION_CONFIRM_HEADER } from "@/lib/services/api-headers";
+import { getMetrics } from "@/lib/services/metrics";
+import { createLogger } from "@/lib/utils/logger";
+
+/**
+ * What happens to mutations while impersonating
+ */
+export type ImpersonationMode = "allow" | "audit" | "confirm" | "block";
+
+const IMPERSONATION_MODES: ImpersonationMode[] = [
+  "allow",
+  "audit",
+  "confirm",
+  "block",
+];
+
+export { IMPERSONATION_CONFIRM_HEADER };
+
+const logger = createLogger("impersonation");
+
+/**
+ * Gets the mode for a policy rule
+ * @param rule Matching API policy rule
+ * @throws Error if AMPECO_IMPERSONATION_POLICY is not a known mode
+ */
+export function getImpersonationMode(rule?: ApiPolicyRule): ImpersonationMode {
+  if (rule?.impersonation) {
+    return rule.impersonation;
+  }
+
+  const value = process.env.AMPECO_IMPERSONATION_POLICY?.trim().toLowerCase();
+  if (!value) {
+    return "audit";
+  }
+  if (!IMPERSONATION_MODES.includes(value as ImpersonationMode)) {
+    throw new Error(
+      `AMPECO_IMPERSONATION_POLICY must be one of ${IMPERSONATION_MODES.join(", ")}`
+    );
+  }
+  return value as ImpersonationMode;
+}
+
+/**
+ * A proxied request checked against the impersonation policy
+ */
+export interface ImpersonationCheck {
+  method: HttpMethod;
+  endpoint: string;
+  context: JwtContext | null;
+  rule: ApiPolicyRule;
+  /** The client sent X-Impersonation-Confirmed: true */
+  confirmed?: boolean;
+  requestId?: string;
+}
+
+/**
+ * Applies the impersonation policy to a proxied request
+ * @throws ApiRequestError (403 or 428) if the mutation is not allowed
+ */
+export function enforceImpersonationPolicy(check: ImpersonationCheck): void {
+  const { method, endpoint, context, rule, confirmed, requestId } = check;
+  if (method === "GET" || !context?.impersonate) {
+    return;
+  }
+
+  const mode = getImpersonationMode(rule);
+  if (mode === "allow") {
+    return;
+  }
+
+  const log = logger.child({ requestId });
+  const entry = {
+    mode,
+    method,
+    endpoint,
+    userId: context.userId,
+    appId: context.appId,
+    widgetId: context.widgetId,
+    tenantUrl: context.tenantUrl,
+  };
+
+  if (mode === "block") {
+    getMetrics().impersonatedMutations.inc({ outcome: "blocked" });
+    log.warn("Blocked mutation while impersonating", entry);
+    throw new ApiRequestError("Changes are not allowed while impersonating", {
+      status: 403,
+      code: API_ERROR_CODES.IMPERSONATION_BLOCKED,
+    });
+  }
+
+  if (mode === "confirm" && !confirmed) {
+    getMetrics().impersonatedMutations.inc({ outcome: "unconfirmed" });
+    throw new ApiRequestError(
+      "Confirm this change before making it while impersonating",
+      {
+        status: 428,
+        code: API_ERROR_CODES.IMPERSONATION_CONFIRMATION_REQUIRED,
+      }
+    );
+  }
+
+  getMetrics().impersonatedMutations.inc({ outcome: "allowed" });
+  log.info("Mutation while impersonating", entry);
+}
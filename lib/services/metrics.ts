@@ -0,0 +1,296 @@
+/**
+ * Metrics Registry
+ *
+ * In-process counters and histograms rendered in the Prometheus text
+ * exposition format by /api/metrics. The registry lives on globalThis so
+ * the middleware and the route handlers (separate bundles in the same
+ * Node.js process) record into the same instance.
+ */
+
+/**
+ * Label values of one series
+ */
+export type MetricLabels = Record<string, string | number>;
+
+/**
+ * Default latency buckets in seconds
+ */
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Escapes a label value for the exposition format
+ */
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+}
+
+/**
+ * Formats a label set as `{a="1",b="2"}` (empty string for no labels)
+ */
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(String(value))}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * Base class for a metric with labelled series
+ */
+abstract class Metric<TSeries> {
+  protected series = new Map<
+    string,
+    { labels: MetricLabels; value: TSeries }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[]
+  ) {}
+
+  /**
+   * Gets (or creates) the series for a label set
+   */
+  protected getSeries(labels: MetricLabels): TSeries {
+    const ordered = Object.fromEntries(
+      this.labelNames.map((name) => [name, labels[name] ?? ""])
+    );
+    const key = JSON.stringify(ordered);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: ordered, value: this.createSeries() };
+      this.series.set(key, entry);
+    }
+    return entry.value;
+  }
+
+  protected abstract createSeries(): TSeries;
+
+  abstract render(): string[];
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+/**
+ * Monotonically increasing counter
+ */
+export class Counter extends Metric<{ value: number }> {
+  protected createSeries() {
+    return { value: 0 };
+  }
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    this.getSeries(labels).value += value;
+  }
+
+  /**
+   * Reads the current value of a series (0 if never incremented)
+   */
+  get(labels: MetricLabels = {}): number {
+    return this.getSeries(labels).value;
+  }
+
+  render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+    ];
+    this.series.forEach(({ labels, value }) => {
+      lines.push(`${this.name}${formatLabels(labels)} ${value.value}`);
+    });
+    return lines;
+  }
+}
+
+/**
+ * Histogram with cumulative buckets
+ */
+export class Histogram extends Metric<{
+  counts: number[];
+  sum: number;
+  count: number;
+}> {
+  constructor(
+    name: string,
+    help: string,
+    labelNames: string[],
+    readonly buckets: number[] = DEFAULT_BUCKETS
+  ) {
+    super(name, help, labelNames);
+  }
+
+  protected createSeries() {
+    return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const series = this.getSeries(labels);
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        series.counts[i]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+    this.series.forEach(({ labels, value }) => {
+      this.buckets.forEach((bound, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: bound })} ${value.counts[i]}`
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`,
+        `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+        `${this.name}_count${formatLabels(labels)} ${value.count}`
+      );
+    });
+    return lines;
+  }
+}
+
+/**
+ * Metrics recorded by the widget backend
+ */
+export interface WidgetMetrics {
+  proxyRequests: Counter;
+  proxyDuration: Histogram;
+  upstreamErrors: Counter;
+  jwtFailures: Counter;
+  jwksFetches: Counter;
+  jwksCacheHits: Counter;
+  rateLimitRejections: Counter;
+  csrfRejections: Counter;
+  impersonatedMutations: Counter;
+}
+
+/**
+ * Creates the widget metrics
+ */
+function createWidgetMetrics(): WidgetMetrics {
+  const route = ["endpoint", "method", "status"];
+  return {
+    proxyRequests: new Counter(
+      "widget_proxy_requests_total",
+      "Proxied API requests",
+      route
+    ),
+    proxyDuration: new Histogram(
+      "widget_proxy_request_duration_seconds",
+      "Proxied API request latency in seconds",
+      route
+    ),
+    upstreamErrors: new Counter(
+      "widget_upstream_errors_total",
+      "Failed AMPECO API calls (status is 0 when no response was received)",
+      route
+    ),
+    jwtFailures: new Counter(
+      "widget_jwt_verification_failures_total",
+      "Rejected JWTs by reason",
+      ["reason"]
+    ),
+    jwksFetches: new Counter(
+      "widget_jwks_fetches_total",
+      "JWKS fetches from AMPECO by result",
+      ["result"]
+    ),
+    jwksCacheHits: new Counter(
+      "widget_jwks_cache_hits_total",
+      "JWKS lookups served from cache",
+      []
+    ),
+    rateLimitRejections: new Counter(
+      "widget_rate_limit_rejections_total",
+      "Requests rejected by the rate limiter by rule",
+      ["rule"]
+    ),
+    csrfRejections: new Counter(
+      "widget_csrf_rejections_total",
+      "Mutating requests rejected by the CSRF check by reason",
+      ["reason"]
+    ),
+    impersonatedMutations: new Counter(
+      "widget_impersonated_mutations_total",
+      "Proxied mutations while impersonating by outcome",
+      ["outcome"]
+    ),
+  };
+}
+
+const globalStore = globalThis as typeof globalThis & {
+  __ampecoWidgetMetrics?: WidgetMetrics;
+};
+
+/**
+ * Gets the metrics instance
+ */
+export function getMetrics(): WidgetMetrics {
+  if (!globalStore.__ampecoWidgetMetrics) {
+    globalStore.__ampecoWidgetMetrics = createWidgetMetrics();
+  }
+  return globalStore.__ampecoWidgetMetrics;
+}
+
+/**
+ * Renders all metrics in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  const metrics: Metric<unknown>[] = Object.values(getMetrics());
+  return metrics.flatMap((metric) => metric.render()).join("\n") + "\n";
+}
+
+/**
+ * Clears all recorded series
+ */
+export function resetMetrics(): void {
+  Object.values(getMetrics()).forEach((metric: Metric<unknown>) =>
+    metric.reset()
+  );
+}
+
+/**
+ * Collapses ids in an endpoint so it can be used as a low-cardinality label
+ * (e.g. `charge-points/v1.0/123` becomes `charge-points/v1.0/:id`)
+ */
+export function getEndpointTemplate(endpoint: string): string {
+  return endpoint
+    .replace(/^\/+|\/+$/g, "")
+    .split("/")
+    .map((segment) =>
+      /\d/.test(segment) && !/^v\d+(\.\d+)*$/.test(segment) ? ":id" : segment
+    )
+    .join("/");
+}
+
+/**
+ * Records one proxied request
+ * @param endpoint Endpoint label: the matched API policy pattern, never the
+ * request path, so arbitrary paths cannot add series
+ * @param method HTTP method
+ * @param status Status returned to the browser
+ * @param durationMs Time taken in milliseconds
+ */
+export function recordProxyRequest(
+  endpoint: string,
+  method: string,
+  status: number,
+  durationMs: number
+): void {
+  const labels = { endpoint, method, status };
+  const metrics = getMetrics();
+  metrics.proxyRequests.inc(labels);
+  metrics.proxyDuration.observe(labels, durationMs / 1000);
+}
@@ -0,0 +1,319 @@
+/**
+ * Mock AMPECO Backend
+ *
+ * In-memory stand-in for the AMPECO public API, used by ApiService in
+ * place of `fetch` when AMPECO_MOCK is enabled. Serves seeded charge
+ * points, EVSEs and sessions with pagination `meta`, `filter[field]=value`
+ * filtering, and keeps created, updated and deleted records in memory until
+ * the server restarts. Any version segment is accepted
+ * (e.g. `charge-points/v1.0` and `charge-points/v2.0` share one collection).
+ */
+
+/**
+ * A stored record
+ */
+export type MockRecord = { id: number } & Record<string, unknown>;
+
+/**
+ * Collections served by the mock, keyed by resource name
+ */
+export type MockCollections = Record<MockResource, MockRecord[]>;
+
+/**
+ * Resource names served by the mock
+ */
+export type MockResource = "charge-points" | "evses" | "sessions";
+
+const RESOURCES: MockResource[] = ["charge-points", "evses", "sessions"];
+
+/**
+ * Fields required when creating a record
+ */
+const REQUIRED_FIELDS: Record<MockResource, string[]> = {
+  "charge-points": ["name"],
+  evses: ["chargePointId"],
+  sessions: ["chargePointId", "evseId"],
+};
+
+const DEFAULT_PER_PAGE = 15;
+const MAX_PER_PAGE = 100;
+
+/**
+ * Fixed reference time so seeded data is the same on every start
+ */
+const SEED_TIME = Date.parse("2025-01-06T08:00:00Z");
+
+const LOCATIONS = ["Central Depot", "Harbour Car Park", "Tech Campus"];
+const HARDWARE_STATUSES = ["available", "charging", "available", "faulted"];
+
+/**
+ * Builds the seeded collections: 9 charge points with 2 EVSEs each and
+ * 60 sessions spread over the EVSEs
+ */
+export function createSeedData(): MockCollections {
+  const chargePoints: MockRecord[] = [];
+  const evses: MockRecord[] = [];
+  const sessions: MockRecord[] = [];
+  const createdAt = new Date(SEED_TIME - 90 * 86400000).toISOString();
+
+  for (let i = 1; i <= 9; i++) {
+    const locationId = Math.ceil(i / 3);
+    chargePoints.push({
+      id: i,
+      name: `${LOCATIONS[locationId - 1]} #${((i - 1) % 3) + 1}`,
+      locationId,
+      status: i === 9 ? "inactive" : "active",
+      networkStatus: i % 4 === 0 ? "offline" : "online",
+      hardwareStatus: HARDWARE_STATUSES[i % HARDWARE_STATUSES.length],
+      createdAt,
+      updatedAt: createdAt,
+    });
+
+    for (let connector = 1; connector <= 2; connector++) {
+      const id = (i - 1) * 2 + connector;
+      evses.push({
+        id,
+        chargePointId: i,
+        identifier: `DE*AMP*E${String(i).padStart(4, "0")}*${connector}`,
+        maxPower: connector === 1 ? 22000 : 50000,
+        currentType: connector === 1 ? "ac" : "dc",
+        status: "active",
+        hardwareStatus: id % 5 === 0 ? "charging" : "available",
+        createdAt,
+        updatedAt: createdAt,
+      });
+    }
+  }
+
+  for (let id = 1; id <= 60; id++) {
+    const evse = evses[(id * 7) % evses.length];
+    const active = id > 57;
+    const startedAt = SEED_TIME - (60 - id) * 3 * 3600000;
+    const energy = 4000 + ((id * 1733) % 38000);
+    sessions.push({
+      id,
+      userId: 100 + (id % 6),
+      chargePointId: evse.chargePointId,
+      evseId: evse.id,
+      status: active ? "active" : "finished",
+      startedAt: new Date(startedAt).toISOString(),
+      stoppedAt: active
+        ? null
+        : new Date(startedAt + (30 + (id % 5) * 20) * 60000).toISOString(),
+      energy,
+      amount: Math.round(energy * 0.039) / 100,
+      currency: "EUR",
+      paymentStatus: active ? "pending" : "paid",
+    });
+  }
+
+  return { "charge-points": chargePoints, evses, sessions };
+}
+
+/**
+ * Builds a JSON response
+ */
+function jsonResponse(status: number, body?: unknown): Response {
+  return new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: body === undefined ? {} : { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Reads `filter[field]=value` and `filter[field][]=value` parameters
+ * @returns Accepted values per field
+ */
+function parseFilters(query: URLSearchParams): Map<string, string[]> {
+  const filters = new Map<string, string[]>();
+  query.forEach((value, key) => {
+    const match = key.match(/^filter\[(\w+)\](\[\])?$/);
+    if (match) {
+      filters.set(match[1], [...(filters.get(match[1]) ?? []), value]);
+    }
+  });
+  return filters;
+}
+
+/**
+ * Reads a positive integer query parameter
+ */
+function getPositiveInt(
+  query: URLSearchParams,
+  name: string,
+  fallback: number
+): number {
+  const value = Number(query.get(name));
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * In-memory AMPECO API
+ */
+export class MockAmpecoBackend {
+  private collections: MockCollections;
+
+  constructor(seed: MockCollections = createSeedData()) {
+    this.collections = structuredClone(seed);
+  }
+
+  /**
+   * Restores the seeded data
+   */
+  reset(seed: MockCollections = createSeedData()): void {
+    this.collections = structuredClone(seed);
+  }
+
+  /**
+   * `fetch`-compatible handler
+   */
+  fetch = async (
+    input: RequestInfo | URL,
+    init: RequestInit = {}
+  ): Promise<Response> => {
+    if (init.signal?.aborted) {
+      throw new DOMException("The operation was aborted.", "AbortError");
+    }
+
+    const url = new URL(input instanceof Request ? input.url : input);
+    const method = (init.method ?? "GET").toUpperCase();
+    const body =
+      typeof init.body === "string" ? JSON.parse(init.body) : undefined;
+
+    return this.handle(method, url, body);
+  };
+
+  /**
+   * Routes a request to a collection or record
+   */
+  private handle(method: string, url: URL, body: unknown): Response {
+    const segments = url.pathname.split("/").filter(Boolean);
+    const index = segments.findIndex((segment) =>
+      RESOURCES.includes(segment as MockResource)
+    );
+    const resource = segments[index] as MockResource | undefined;
+    // Expects {resource}/{version} or {resource}/{version}/{id}
+    const rest = segments.slice(index + 2);
+
+    if (!resource || !/^v\d/.test(segments[index + 1] ?? "")) {
+      return jsonResponse(404, { message: "Resource not found" });
+    }
+    if (rest.length > 1) {
+      return jsonResponse(404, { message: "Resource not found" });
+    }
+
+    const records = this.collections[resource];
+    if (rest.length === 0) {
+      if (method === "GET") {
+        return this.list(records, url.searchParams);
+      }
+      if (method === "POST") {
+        return this.create(resource, body);
+      }
+      return jsonResponse(405, { message: `Method ${method} not allowed` });
+    }
+
+    const id = Number(rest[0]);
+    const position = records.findIndex((record) => record.id === id);
+    if (position === -1) {
+      return jsonResponse(404, {
+        message: `No ${resource} with id ${rest[0]}`,
+      });
+    }
+
+    switch (method) {
+      case "GET":
+        return jsonResponse(200, { data: records[position] });
+      case "PATCH":
+      case "PUT":
+        records[position] = {
+          ...(method === "PATCH" ? records[position] : {}),
+          ...(body as Record<string, unknown>),
+          id,
+          createdAt: records[position].createdAt,
+          updatedAt: new Date().toISOString(),
+        };
+        return jsonResponse(200, { data: records[position] });
+      case "DELETE":
+        records.splice(position, 1);
+        return jsonResponse(204);
+      default:
+        return jsonResponse(405, { message: `Method ${method} not allowed` });
+    }
+  }
+
+  /**
+   * Lists a collection with filters and pagination
+   */
+  private list(records: MockRecord[], query: URLSearchParams): Response {
+    const filters = parseFilters(query);
+    const matching = records.filter((record) =>
+      Array.from(filters).every(([field, values]) =>
+        values.includes(String(record[field]))
+      )
+    );
+
+    const perPage = Math.min(
+      getPositiveInt(query, "per_page", DEFAULT_PER_PAGE),
+      MAX_PER_PAGE
+    );
+    const page = getPositiveInt(query, "page", 1);
+    const lastPage = Math.max(1, Math.ceil(matching.length / perPage));
+    const data = matching.slice((page - 1) * perPage, page * perPage);
+
+    return jsonResponse(200, {
+      data,
+      meta: {
+        current_page: page,
+        last_page: lastPage,
+        per_page: perPage,
+        total: matching.length,
+      },
+    });
+  }
+
+  /**
+   * Creates a record, validating required fields
+   */
+  private create(resource: MockResource, body: unknown): Response {
+    const fields = (body ?? {}) as Record<string, unknown>;
+    const errors: Record<string, string[]> = {};
+    REQUIRED_FIELDS[resource].forEach((field) => {
+      if (fields[field] === undefined || fields[field] === "") {
+        errors[field] = [`The ${field} field is required.`];
+      }
+    });
+    if (Object.keys(errors).length > 0) {
+      return jsonResponse(422, {
+        message: "The given data was invalid.",
+        errors,
+      });
+    }
+
+    const records = this.collections[resource];
+    const now = new Date().toISOString();
+    const record: MockRecord = {
+      ...fields,
+      id: records.reduce((max, item) => Math.max(max, item.id), 0) + 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+    records.push(record);
+    return jsonResponse(201, { data: record });
+  }
+}
+
+/**
+ * Singleton instance of the mock backend
+ */
+let mockBackendInstance: MockAmpecoBackend | null = null;
+
+/**
+ * Gets the mock backend instance (state is shared by every ApiService)
+ */
+export function getMockBackend(): MockAmpecoBackend {
+  if (!mockBackendInstance) {
+    mockBackendInstance = new MockAmpecoBackend();
+  }
+  return mockBackendInstance;
+}
@@ -0,0 +1,248 @@
+/**
+ * Proxy Request Pipeline
+ *
+ * Shared by the catch-all route and the batch route: applies the API
+ * policy, the impersonation policy, the opt-in response cache and cache
+ * invalidation around a JSON request to AMPECO.
+ */
+
+import type { JwtContext } from "@/lib/auth/get-jwt-context";
+import { evaluateApiPolicy, type ApiPolicyRule } from "@/lib/config/api-policy";
+import { getApiService, type HttpMethod } from "@/lib/services/api";
+import {
+  API_ERROR_CODES,
+  ApiRequestError,
+  toApiErrorEnvelope,
+} from "@/lib/services/api-error";
+import { enforceImpersonationPolicy } from "@/lib/services/impersonation";
+import { recordProxyRequest } from "@/lib/services/metrics";
+import { getResponseCache } from "@/lib/services/response-cache";
+import { toSearchParams, type QueryInput } from "@/lib/utils/query-string";
+
+/**
+ * Query parameter that asks the proxy to merge every page of a collection
+ * (e.g. `/api/sessions/v1.0?fetch_all=1`). Not forwarded upstream.
+ */
+export const FETCH_ALL_PARAM = "fetch_all";
+
+/**
+ * Endpoint label for requests rejected by the API policy, so arbitrary
+ * paths cannot blow up the metrics cardinality
+ */
+const DENIED_ENDPOINT_LABEL = "(denied)";
+
+/**
+ * A request to forward upstream
+ */
+export interface ProxyRequest {
+  method: HttpMethod;
+  endpoint: string;
+  params?: QueryInput;
+  body?: unknown;
+  /** Aborts the upstream call when the browser goes away */
+  signal?: AbortSignal;
+  /** Correlates logs and is forwarded upstream as X-Request-Id */
+  requestId?: string;
+  /** The client confirmed a mutation while impersonating */
+  impersonationConfirmed?: boolean;
+}
+
+/**
+ * Result of a forwarded request
+ */
+export interface ProxyResult {
+  status: number;
+  data: unknown;
+  etag?: string;
+  cacheStatus?: "fresh" | "revalidated" | "miss";
+}
+
+/**
+ * Rejects requests that the API policy does not allow with 403
+ * before they reach the upstream
+ * @returns The matching policy rule
+ */
+export function assertAllowed(
+  method: HttpMethod,
+  endpoint: string,
+  context: JwtContext | null
+): ApiPolicyRule {
+  const decision = evaluateApiPolicy({
+    method,
+    endpoint,
+    widgetId: context?.widgetId,
+    widgetName: context?.widgetName,
+  });
+
+  if (!decision.allowed) {
+    throw new ApiRequestError(decision.reason, { status: 403 });
+  }
+  return decision.rule;
+}
+
+/**
+ * Rejects requests without a verified JWT context with 401 (e.g. a path
+ * the middleware did not run on)
+ */
+export function assertAuthenticated(
+  context: JwtContext | null
+): asserts context is JwtContext {
+  if (!context) {
+    throw new ApiRequestError("Authentication required", {
+      status: 401,
+      code: API_ERROR_CODES.UNAUTHORIZED,
+    });
+  }
+}
+
+/**
+ * Applies the API and impersonation policies, runs the request and records
+ * its status and latency in the proxy metrics
+ * @param method HTTP method
+ * @param endpoint AMPECO endpoint
+ * @param context JWT context of the caller
+ * @param run Performs the request once allowed
+ * @param options Confirmation and request id for the impersonation policy
+ * @throws ApiRequestError without a JWT context, on policy rejection, or
+ * whatever `run` throws
+ */
+export async function guardProxyRequest<T extends { status: number }>(
+  method: HttpMethod,
+  endpoint: string,
+  context: JwtContext | null,
+  run: (rule: ApiPolicyRule) => Promise<T>,
+  options: Pick<ProxyRequest, "impersonationConfirmed" | "requestId"> = {}
+): Promise<T> {
+  const startedAt = Date.now();
+  let endpointLabel = DENIED_ENDPOINT_LABEL;
+
+  try {
+    assertAuthenticated(context);
+    const rule = assertAllowed(method, endpoint, context);
+    // Requests under a `**` rule may use any path; the pattern is bounded
+    endpointLabel = rule.pattern;
+    enforceImpersonationPolicy({
+      method,
+      endpoint,
+      context,
+      rule,
+      confirmed: options.impersonationConfirmed,
+      requestId: options.requestId,
+    });
+    const result = await run(rule);
+    recordProxyRequest(
+      endpointLabel,
+      method,
+      result.status,
+      Date.now() - startedAt
+    );
+    return result;
+  } catch (error) {
+    recordProxyRequest(
+      endpointLabel,
+      method,
+      toApiErrorEnvelope(error, "").status,
+      Date.now() - startedAt
+    );
+    throw error;
+  }
+}
+
+/**
+ * Forwards a JSON request to AMPECO
+ * @param request Method, endpoint, query and body
+ * @param context JWT context of the caller
+ * @returns Status and data to send to the browser
+ * @throws ApiRequestError on policy rejection or upstream failure
+ */
+export async function executeProxyRequest(
+  request: ProxyRequest,
+  context: JwtContext | null
+): Promise<ProxyResult> {
+  return guardProxyRequest(
+    request.method,
+    request.endpoint,
+    context,
+    (rule) => forwardRequest(request, rule, context),
+    request
+  );
+}
+
+/**
+ * Forwards an allowed request (GET variants, mutations and invalidation)
+ */
+async function forwardRequest(
+  request: ProxyRequest,
+  rule: ApiPolicyRule,
+  context: JwtContext | null
+): Promise<ProxyResult> {
+  const { method, endpoint, params, body, signal, requestId } = request;
+  // The tenant from the verified JWT decides which AMPECO upstream is used
+  const apiService = getApiService(context?.tenantUrl || undefined);
+  const metricsEndpoint = rule.pattern;
+
+  if (method === "GET") {
+    const query = toSearchParams(params);
+    const fetchAll = query.get(FETCH_ALL_PARAM);
+    query.delete(FETCH_ALL_PARAM);
+
+    if (fetchAll === "1" || fetchAll === "true") {
+      // Pagination is driven by the server-side page size and caps
+      query.delete("page");
+      query.delete("per_page");
+      const data = await apiService.requestAllPages(endpoint, {
+        params: query,
+        signal,
+        requestId,
+        metricsEndpoint,
+      });
+      return { status: 200, data };
+    }
+
+    // Opt-in per-user cache (see `cache` on API policy rules)
+    if (rule.cache && context) {
+      const cached = await getResponseCache().get(
+        apiService,
+        endpoint,
+        query,
+        { tenantUrl: context.tenantUrl, userId: context.userId },
+        rule.cache.ttlSeconds,
+        { signal, requestId, metricsEndpoint }
+      );
+      return {
+        status: 200,
+        data: cached.data,
+        etag: cached.etag,
+        cacheStatus: cached.status,
+      };
+    }
+
+    const data = await apiService.request(endpoint, {
+      method,
+      params: query,
+      signal,
+      requestId,
+      metricsEndpoint,
+    });
+    return { status: 200, data };
+  }
+
+  const data = await apiService.request(endpoint, {
+    method,
+    params,
+    body,
+    signal,
+    requestId,
+    metricsEndpoint,
+  });
+
+  // Drop cached responses affected by the mutation
+  if (context) {
+    getResponseCache().invalidate(context.tenantUrl, endpoint);
+  }
+
+  if (method === "DELETE") {
+    return { status: 200, data: { success: true } };
+  }
+  return { status: method === "POST" ? 201 : 200, data };
+}
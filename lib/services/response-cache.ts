@@ -0,0 +1,217 @@
+/**
+ * Proxy Response Cache
+ *
+ * Opt-in server-side cache for proxied GETs, enabled per endpoint via
+ * `cache.ttlSeconds` on an API policy rule. Entries are scoped to the
+ * tenant and JWT user, revalidated upstream with If-None-Match once stale,
+ * and invalidated when a mutation goes through the same proxy.
+ */
+
+import { createHash } from "crypto";
+import NodeCache from "node-cache";
+import type { ApiRequestOptions, ApiService } from "@/lib/services/api";
+
+/**
+ * Identity an entry belongs to
+ */
+export interface CacheScope {
+  tenantUrl: string;
+  userId: number;
+}
+
+/**
+ * Cached proxy response
+ */
+interface CacheEntry {
+  data: unknown;
+  etag: string;
+  upstreamEtag: string | null;
+  expiresAt: number;
+  tenantUrl: string;
+  endpoint: string;
+}
+
+/**
+ * Result of a cached lookup
+ */
+export interface CachedResponse<T> {
+  data: T;
+  etag: string;
+  status: "fresh" | "revalidated" | "miss";
+}
+
+/**
+ * Stale entries are kept this long so they can be revalidated
+ */
+const STALE_RETENTION_SECONDS = 3600;
+
+/**
+ * Computes a weak ETag for a JSON body
+ */
+export function computeEtag(data: unknown): string {
+  const hash = createHash("sha1").update(JSON.stringify(data)).digest("hex");
+  return `W/"${hash}"`;
+}
+
+/**
+ * Checks an If-None-Match header against an ETag (weak comparison)
+ * @param header If-None-Match header value
+ * @param etag Current ETag
+ * @returns True if the client's copy is still current
+ */
+export function matchesIfNoneMatch(
+  header: string | null,
+  etag: string
+): boolean {
+  if (!header) {
+    return false;
+  }
+  if (header.trim() === "*") {
+    return true;
+  }
+
+  const opaque = (value: string) => value.trim().replace(/^W\//, "");
+  return header.split(",").some((value) => opaque(value) === opaque(etag));
+}
+
+/**
+ * Gets the collection an endpoint belongs to (`resource/version`)
+ */
+function getCollection(endpoint: string): string {
+  return endpoint.split("/").slice(0, 2).join("/");
+}
+
+/**
+ * Per-user response cache with ETag revalidation
+ */
+export class ResponseCache {
+  private store = new NodeCache({ checkperiod: 120, useClones: false });
+
+  /**
+   * Builds the cache key for a request
+   */
+  private buildKey(
+    scope: CacheScope,
+    endpoint: string,
+    query: URLSearchParams
+  ): string {
+    const normalized = new URLSearchParams(query);
+    normalized.sort();
+    return JSON.stringify([
+      scope.tenantUrl,
+      scope.userId,
+      endpoint,
+      normalized.toString(),
+    ]);
+  }
+
+  /**
+   * Returns a cached response, revalidating or fetching it when needed
+   * @param apiService Service used for upstream requests
+   * @param endpoint API endpoint
+   * @param query Query parameters forwarded upstream
+   * @param scope Tenant and user the response belongs to
+   * @param ttlSeconds How long the entry is served without revalidation
+   * @param options Cancellation signal, request id and metrics label for
+   * upstream calls
+   */
+  async get<T>(
+    apiService: ApiService,
+    endpoint: string,
+    query: URLSearchParams,
+    scope: CacheScope,
+    ttlSeconds: number,
+    options: Pick<
+      ApiRequestOptions,
+      "signal" | "requestId" | "metricsEndpoint"
+    > = {}
+  ): Promise<CachedResponse<T>> {
+    const key = this.buildKey(scope, endpoint, query);
+    const entry = this.store.get<CacheEntry>(key);
+
+    if (entry && entry.expiresAt > Date.now()) {
+      return { data: entry.data as T, etag: entry.etag, status: "fresh" };
+    }
+
+    const result = await apiService.requestConditional<T>(
+      endpoint,
+      { ...options, params: query },
+      entry?.upstreamEtag
+    );
+
+    if (result.notModified && entry) {
+      this.save(key, { ...entry, expiresAt: Date.now() + ttlSeconds * 1000 });
+      return {
+        data: entry.data as T,
+        etag: entry.etag,
+        status: "revalidated",
+      };
+    }
+
+    // Upstream answered 304 to an unconditional request - refetch plainly
+    const data = result.notModified
+      ? await apiService.request<T>(endpoint, { ...options, params: query })
+      : result.data;
+    const etag = result.etag ?? computeEtag(data);
+
+    this.save(key, {
+      data,
+      etag,
+      upstreamEtag: result.etag,
+      expiresAt: Date.now() + ttlSeconds * 1000,
+      tenantUrl: scope.tenantUrl,
+      endpoint,
+    });
+
+    return { data, etag, status: "miss" };
+  }
+
+  /**
+   * Stores an entry, keeping it past its TTL for revalidation
+   */
+  private save(key: string, entry: CacheEntry): void {
+    const ttlSeconds = Math.ceil((entry.expiresAt - Date.now()) / 1000);
+    this.store.set(key, entry, ttlSeconds + STALE_RETENTION_SECONDS);
+  }
+
+  /**
+   * Drops every entry of a tenant in the collection a mutation touched,
+   * for all users (a change by one user is visible to the others)
+   * @param tenantUrl Tenant the mutation was made against
+   * @param endpoint Mutated endpoint (e.g. charge-points/v1.0/123)
+   * @returns Number of entries removed
+   */
+  invalidate(tenantUrl: string, endpoint: string): number {
+    const collection = getCollection(endpoint);
+    const keys = this.store.keys().filter((key) => {
+      const entry = this.store.get<CacheEntry>(key);
+      return (
+        entry?.tenantUrl === tenantUrl &&
+        getCollection(entry.endpoint) === collection
+      );
+    });
+    return this.store.del(keys);
+  }
+
+  /**
+   * Removes all entries
+   */
+  clear(): void {
+    this.store.flushAll();
+  }
+}
+
+/**
+ * Singleton instance of the response cache
+ */
+let responseCacheInstance: ResponseCache | null = null;
+
+/**
+ * Gets the response cache instance
+ */
+export function getResponseCache(): ResponseCache {
+  if (!responseCacheInstance) {
+    responseCacheInstance = new ResponseCache();
+  }
+  return responseCacheInstance;
+}
@@ -0,0 +1,134 @@
+/**
+ * Retry Helpers
+ *
+ * Backoff, Retry-After parsing and a retry budget used by ApiService
+ * to ride out AMPECO rate limits and brief 5xx blips.
+ */
+
+import type { HttpMethod } from "@/lib/services/api";
+
+/**
+ * Retry behaviour for upstream requests
+ */
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Retry-After values above this are not waited for */
+  maxRetryAfterMs: number;
+}
+
+/**
+ * Methods that are safe to repeat
+ */
+export const IDEMPOTENT_METHODS: HttpMethod[] = ["GET", "PUT", "DELETE"];
+
+/**
+ * Upstream statuses worth retrying
+ */
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Checks if an upstream status is worth retrying
+ */
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.includes(status);
+}
+
+/**
+ * Exponential backoff with full jitter
+ * @param attempt Zero-based retry attempt
+ * @param policy Retry policy
+ * @returns Delay in milliseconds
+ */
+export function computeBackoff(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** attempt
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Parses a Retry-After header (delay-seconds or HTTP date)
+ * @param header Retry-After header value
+ * @param now Current time in milliseconds
+ * @returns Delay in milliseconds, or null if missing or invalid
+ */
+export function parseRetryAfter(
+  header: string | null,
+  now: number = Date.now()
+): number | null {
+  if (!header) {
+    return null;
+  }
+
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) {
+    return null;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Waits for a delay, resolving early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Retry budget (token bucket)
+ *
+ * Every request deposits a fraction of a token and every retry withdraws
+ * a whole one, so retries stay a bounded share of traffic and a failing
+ * upstream isn't hit with a retry storm.
+ */
+export class RetryBudget {
+  private tokens: number;
+
+  constructor(
+    private readonly maxTokens: number = 10,
+    private readonly tokenRatio: number = 0.1
+  ) {
+    this.tokens = maxTokens;
+  }
+
+  /**
+   * Records a request
+   */
+  deposit(): void {
+    this.tokens = Math.min(this.maxTokens, this.tokens + this.tokenRatio);
+  }
+
+  /**
+   * Takes a token for a retry
+   * @returns True if the retry is within budget
+   */
+  withdraw(): boolean {
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+}
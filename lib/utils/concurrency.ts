@@ -0,0 +1,34 @@
+/**
+ * Concurrency Utilities
+ */
+
+/**
+ * Maps items through an async function with at most `limit` in flight.
+ * Results keep the order of the input.
+ * @param items Items to process
+ * @param limit Maximum concurrent calls
+ * @param fn Async mapper
+ * @returns Mapped results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    worker
+  );
+  await Promise.all(workers);
+  return results;
+}
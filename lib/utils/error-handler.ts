@@ -5,6 +5,11 @@
  */
 
 import type { ApiError } from "@/lib/services/api";
+import {
+  API_ERROR_CODES,
+  isApiRequestError,
+  type ApiErrorCode,
+} from "@/lib/services/api-error";
 
 /**
  * User-friendly error messages
@@ -16,16 +21,37 @@ export const ERROR_MESSAGES = {
   JWT_INVALID: "Invalid authentication token. Please check your configuration.",
   API_ERROR: "Failed to fetch data from AMPECO API. Please try again later.",
   NETWORK_ERROR: "Network error. Please check your connection and try again.",
+  NOT_FOUND: "The requested resource was not found.",
+  FORBIDDEN: "You do not have permission to perform this action.",
+  VALIDATION_FAILED: "Some of the submitted values are invalid.",
+  RATE_LIMITED: "Too many requests. Please wait a moment and try again.",
   UNKNOWN_ERROR: "An unexpected error occurred. Please try again.",
 };
 
+/**
+ * Messages used when an API error of a given code has no message
+ */
+const MESSAGES_BY_CODE: Partial<Record<ApiErrorCode, string>> = {
+  [API_ERROR_CODES.NOT_FOUND]: ERROR_MESSAGES.NOT_FOUND,
+  [API_ERROR_CODES.FORBIDDEN]: ERROR_MESSAGES.FORBIDDEN,
+  [API_ERROR_CODES.VALIDATION_FAILED]: ERROR_MESSAGES.VALIDATION_FAILED,
+  [API_ERROR_CODES.RATE_LIMITED]: ERROR_MESSAGES.RATE_LIMITED,
+};
+
+/**
+ * Gets the fallback message for an API error code
+ */
+function getMessageForCode(code?: ApiErrorCode | null): string {
+  return (code && MESSAGES_BY_CODE[code]) || ERROR_MESSAGES.API_ERROR;
+}
+
 /**
  * Formats API error into user-friendly message
  */
 export function formatApiError(error: unknown): string {
-  if (error && typeof error === "object" && "message" in error) {
-    const apiError = error as ApiError;
-    return apiError.message || ERROR_MESSAGES.API_ERROR;
+  // Errors from the proxy carry the upstream message
+  if (isApiRequestError(error)) {
+    return error.message || getMessageForCode(error.code);
   }
 
   if (error instanceof Error) {
@@ -39,15 +65,73 @@ export function formatApiError(error: unknown): string {
     ) {
       return ERROR_MESSAGES.JWT_INVALID;
     }
-    if (error.message.includes("network") || error.message.includes("fetch")) {
+    if (
+      error.message.toLowerCase().includes("network") ||
+      error.message.includes("fetch")
+    ) {
       return ERROR_MESSAGES.NETWORK_ERROR;
     }
     return error.message;
   }
 
+  if (error && typeof error === "object" && "message" in error) {
+    const apiError = error as ApiError;
+    return apiError.message || getMessageForCode(apiError.code);
+  }
+
   return ERROR_MESSAGES.UNKNOWN_ERROR;
 }
 
+/**
+ * Gets the error code of an API error
+ * @returns Error code or null if error is not an API error
+ */
+export function getApiErrorCode(error: unknown): ApiErrorCode | null {
+  if (isApiRequestError(error)) {
+    return error.code;
+  }
+  if (error && typeof error === "object" && "code" in error) {
+    return (error as ApiError).code ?? null;
+  }
+  return null;
+}
+
+/**
+ * Gets per-field validation errors of an API error
+ * @returns Field errors keyed by field name (empty if none)
+ */
+export function getFieldErrors(error: unknown): Record<string, string[]> {
+  if (error && typeof error === "object" && "errors" in error) {
+    return (error as ApiError).errors ?? {};
+  }
+  return {};
+}
+
+/**
+ * Checks if error is a "not found" API error
+ */
+export function isNotFoundError(error: unknown): boolean {
+  return getApiErrorCode(error) === API_ERROR_CODES.NOT_FOUND;
+}
+
+/**
+ * Checks if error is a "forbidden" API error
+ */
+export function isForbiddenError(error: unknown): boolean {
+  return getApiErrorCode(error) === API_ERROR_CODES.FORBIDDEN;
+}
+
+/**
+ * Checks if error is a validation API error
+ */
+export function isValidationError(error: unknown): boolean {
+  const code = getApiErrorCode(error);
+  return (
+    code === API_ERROR_CODES.VALIDATION_FAILED ||
+    code === API_ERROR_CODES.BAD_REQUEST
+  );
+}
+
 /**
  * Checks if error is a network error
  */
@@ -66,6 +150,9 @@ export function isNetworkError(error: unknown): boolean {
  * Checks if error is an authentication error
  */
 export function isAuthError(error: unknown): boolean {
+  if (getApiErrorCode(error) === API_ERROR_CODES.UNAUTHORIZED) {
+    return true;
+  }
   if (error instanceof Error) {
     return (
       error.message.includes("JWT") ||
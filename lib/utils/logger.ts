@@ -0,0 +1,302 @@
+/**
+ * Logger
+ *
+ * Leveled server-side logging: one JSON object per line in production,
+ * readable lines in development. Secrets are redacted from every message
+ * and field before output (JWTs, the AMPECO API token and secrets added
+ * with registerSecret(), `token` query parameters and sensitive body
+ * fields).
+ *
+ * Environment:
+ * - LOG_LEVEL: debug | info | warn | error | silent (default: debug in
+ *   development, info otherwise)
+ * - LOG_REDACT_FIELDS: extra comma-separated field names to redact
+ */
+
+/**
+ * Log levels, in increasing severity
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Structured context attached to a log line
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Header carrying the request id from the middleware to route handlers
+ * and on to AMPECO
+ */
+export const REQUEST_ID_HEADER = "x-request-id";
+
+const LEVELS: Record<LogLevel | "silent", number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+/**
+ * Field names whose values are always redacted (case-insensitive)
+ */
+const REDACTED_FIELDS = [
+  "authorization",
+  "cookie",
+  "token",
+  "jwt",
+  "jwttoken",
+  "jwt_token",
+  "apitoken",
+  "api_token",
+  "password",
+  "secret",
+];
+
+const REDACTED = "[REDACTED]";
+const MAX_DEPTH = 6;
+
+/**
+ * Values redacted wherever they appear (e.g. tenant API tokens)
+ */
+const registeredSecrets = new Set<string>();
+
+const JWT_PATTERN = /eyJ[\w-]*\.[\w-]+\.[\w-]*/g;
+const TOKEN_PARAM_PATTERN = /([?&](?:token|jwt|access_token)=)[^&#\s"']*/gi;
+const BEARER_PATTERN = /(Bearer\s+)[^\s"',]+/gi;
+
+/**
+ * Gets the configured minimum level
+ */
+export function getLogLevel(): LogLevel | "silent" {
+  const level = process.env.LOG_LEVEL?.toLowerCase();
+  if (level && level in LEVELS) {
+    return level as LogLevel | "silent";
+  }
+  return process.env.NODE_ENV === "development" ? "debug" : "info";
+}
+
+/**
+ * Gets the field names to redact, including LOG_REDACT_FIELDS
+ */
+function getRedactedFields(): string[] {
+  const extra = (process.env.LOG_REDACT_FIELDS ?? "")
+    .split(",")
+    .map((field) => field.trim().toLowerCase())
+    .filter(Boolean);
+  return [...REDACTED_FIELDS, ...extra];
+}
+
+/**
+ * Registers a secret to redact from all log output
+ * @param secret Secret value; values shorter than 8 characters are ignored
+ * so common words are not redacted
+ */
+export function registerSecret(secret: string): void {
+  if (secret.length >= 8) {
+    registeredSecrets.add(secret);
+  }
+}
+
+/**
+ * Removes secrets from a string
+ */
+function redactString(value: string): string {
+  let result = value
+    .replace(BEARER_PATTERN, `$1${REDACTED}`)
+    .replace(TOKEN_PARAM_PATTERN, `$1${REDACTED}`)
+    .replace(JWT_PATTERN, REDACTED);
+
+  const apiToken = process.env.AMPECO_API_TOKEN;
+  const secrets = apiToken
+    ? [apiToken, ...registeredSecrets]
+    : [...registeredSecrets];
+  for (const secret of secrets) {
+    if (secret.length >= 8) {
+      result = result.split(secret).join(REDACTED);
+    }
+  }
+  return result;
+}
+
+/**
+ * Serializes an error into loggable fields
+ */
+function serializeError(error: Error): LogFields {
+  const { status, code, requestId } = error as Error & LogFields;
+  return {
+    name: error.name,
+    message: error.message,
+    ...(status !== undefined && { status }),
+    ...(code !== undefined && { code }),
+    ...(requestId !== undefined && { upstreamRequestId: requestId }),
+    ...(process.env.NODE_ENV !== "production" && { stack: error.stack }),
+  };
+}
+
+/**
+ * Recursively redacts secrets from a value
+ * @param value Message, field value or object
+ * @returns Copy that is safe to log
+ */
+export function redact(value: unknown): unknown {
+  return redactValue(value, getRedactedFields(), 0, new WeakSet());
+}
+
+/**
+ * Redacts one value, tracking depth and visited objects
+ */
+function redactValue(
+  value: unknown,
+  fields: string[],
+  depth: number,
+  seen: WeakSet<object>
+): unknown {
+  if (typeof value === "string") {
+    return redactString(value);
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (value instanceof URL || value instanceof URLSearchParams) {
+    return redactString(value.toString());
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (seen.has(value) || depth >= MAX_DEPTH) {
+    return "[Truncated]";
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    return redactValue(serializeError(value), fields, depth + 1, seen);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, fields, depth + 1, seen));
+  }
+
+  const entries =
+    value instanceof Headers
+      ? Array.from(value.entries())
+      : Object.entries(value);
+  return Object.fromEntries(
+    entries.map(([key, item]) => [
+      key,
+      fields.includes(key.toLowerCase())
+        ? REDACTED
+        : redactValue(item, fields, depth + 1, seen),
+    ])
+  );
+}
+
+/**
+ * Formats a field value for the development output
+ */
+function formatPretty(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Leveled logger with bound fields
+ */
+export class Logger {
+  constructor(
+    private readonly scope: string,
+    private readonly bindings: LogFields = {}
+  ) {}
+
+  debug(message: string, fields?: LogFields): void {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write("error", message, fields);
+  }
+
+  /**
+   * Creates a logger that adds fields to every line (e.g. requestId)
+   */
+  child(bindings: LogFields): Logger {
+    return new Logger(this.scope, { ...this.bindings, ...bindings });
+  }
+
+  /**
+   * Checks if a level is enabled (to skip building expensive fields)
+   */
+  isEnabled(level: LogLevel): boolean {
+    return LEVELS[level] >= LEVELS[getLogLevel()];
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const safeMessage = redactString(message);
+    const safeFields = redact({ ...this.bindings, ...fields }) as LogFields;
+    const output =
+      level === "error"
+        ? console.error
+        : level === "warn"
+          ? console.warn
+          : console.log;
+
+    if (process.env.NODE_ENV === "production") {
+      output(
+        JSON.stringify({
+          time: new Date().toISOString(),
+          level,
+          scope: this.scope,
+          msg: safeMessage,
+          ...safeFields,
+        })
+      );
+      return;
+    }
+
+    const details = Object.entries(safeFields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${formatPretty(value)}`)
+      .join(" ");
+    output(
+      `${level.toUpperCase().padEnd(5)} [${this.scope}] ${safeMessage}${
+        details ? ` ${details}` : ""
+      }`
+    );
+  }
+}
+
+/**
+ * Creates a logger for a module
+ * @param scope Short module name shown on every line (e.g. "api")
+ * @param bindings Fields added to every line
+ */
+export function createLogger(scope: string, bindings?: LogFields): Logger {
+  return new Logger(scope, bindings);
+}
+
+/**
+ * Generates a request id
+ */
+export function createRequestId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Accepts an inbound request id (e.g. from a load balancer) if it looks
+ * sane, so logs can be correlated across hops; otherwise generates one
+ */
+export function resolveRequestId(inbound: string | null): string {
+  return inbound && /^[\w.:-]{1,128}$/.test(inbound)
+    ? inbound
+    : createRequestId();
+}
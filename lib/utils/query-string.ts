@@ -0,0 +1,127 @@
+/**
+ * Query String Utilities
+ *
+ * Single serializer shared by the client hooks, the catch-all proxy and
+ * ApiService. Uses the bracket notation AMPECO (Laravel) understands:
+ * - arrays: `filter[status][]=a&filter[status][]=b`
+ * - nested objects: `filter[createdAfter]=2024-01-01T00:00:00.000Z`
+ * Values are never coerced, so IDs like "007" reach the upstream intact.
+ */
+
+/**
+ * Scalar query value. Dates are sent as ISO 8601 strings;
+ * null and undefined are skipped.
+ */
+export type QueryPrimitive =
+  | string
+  | number
+  | boolean
+  | Date
+  | null
+  | undefined;
+
+/**
+ * Query value, possibly nested
+ */
+export type QueryValue =
+  | QueryPrimitive
+  | QueryValue[]
+  | { [key: string]: QueryValue };
+
+/**
+ * Query parameters object
+ */
+export type QueryParams = Record<string, QueryValue>;
+
+/**
+ * Anything that can be serialized into a query string. Strings and
+ * URLSearchParams are passed through verbatim.
+ */
+export type QueryInput = QueryParams | URLSearchParams | string;
+
+/**
+ * Appends a value (recursively) to search params
+ */
+function appendValue(
+  searchParams: URLSearchParams,
+  key: string,
+  value: QueryValue
+): void {
+  if (value === null || value === undefined) {
+    return;
+  }
+
+  if (value instanceof Date) {
+    searchParams.append(key, value.toISOString());
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    // Arrays of scalars use `key[]`, arrays of objects need indices
+    const indexed = value.some(
+      (item) =>
+        typeof item === "object" && item !== null && !(item instanceof Date)
+    );
+    value.forEach((item, index) => {
+      const itemKey = indexed ? `${key}[${index}]` : `${key}[]`;
+      appendValue(searchParams, itemKey, item);
+    });
+    return;
+  }
+
+  if (typeof value === "object") {
+    Object.entries(value).forEach(([childKey, childValue]) => {
+      appendValue(searchParams, `${key}[${childKey}]`, childValue);
+    });
+    return;
+  }
+
+  searchParams.append(key, String(value));
+}
+
+/**
+ * Converts query input to URLSearchParams
+ * @param params Query parameters, URLSearchParams or raw query string
+ * @returns URLSearchParams (a copy when URLSearchParams is given)
+ */
+export function toSearchParams(params?: QueryInput): URLSearchParams {
+  if (!params) {
+    return new URLSearchParams();
+  }
+
+  if (typeof params === "string" || params instanceof URLSearchParams) {
+    return new URLSearchParams(params);
+  }
+
+  const searchParams = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    appendValue(searchParams, key, value);
+  });
+  return searchParams;
+}
+
+/**
+ * Serializes query input into a query string (without leading "?")
+ * @param params Query parameters, URLSearchParams or raw query string
+ * @returns Encoded query string
+ */
+export function serializeQuery(params?: QueryInput): string {
+  if (typeof params === "string") {
+    return params.replace(/^\?/, "");
+  }
+  return toSearchParams(params).toString();
+}
+
+/**
+ * Appends serialized query input to a path
+ * @param path Path, possibly with an existing query string
+ * @param params Query input
+ * @returns Path with query string
+ */
+export function appendQuery(path: string, params?: QueryInput): string {
+  const query = serializeQuery(params);
+  if (!query) {
+    return path;
+  }
+  return `${path}${path.includes("?") ? "&" : "?"}${query}`;
+}
@@ -3,101 +3,364 @@
  *
  * Validates JWT tokens from AMPECO backend and stores
  * user context in request headers for use in Server Components.
+ * The URL token is exchanged for an encrypted session cookie on the first
+ * page load (see lib/auth/session.ts); mutating API requests are checked
+ * for CSRF (see lib/middleware/csrf.ts).
  */
 
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
-import { verifyJwt, extractJwtToken } from "@/lib/auth/jwt-verifier";
+import {
+  verifyJwt,
+  extractJwtToken,
+  JwtVerificationError,
+} from "@/lib/auth/jwt-verifier";
+import { isDevIssuerEnabled } from "@/lib/auth/dev-issuer";
+import { checkJwtUse, consumeJwt } from "@/lib/auth/jwt-replay";
+import {
+  SESSION_CHECK_PARAM,
+  SESSION_COOKIE_NAME,
+  clearSessionCookie,
+  isSessionEnabled,
+  openSession,
+  setSessionCookie,
+} from "@/lib/auth/session";
+import {
+  CSRF_COOKIE_NAME,
+  checkCsrf,
+  createCsrfToken,
+  isMutatingMethod,
+  setCsrfCookie,
+  verifyCsrfToken,
+} from "@/lib/middleware/csrf";
+import {
+  getRouteAccess,
+  stripReservedHeaders,
+} from "@/lib/middleware/route-protection";
+import {
+  UNKNOWN_IP,
+  getClientIp,
+  getMostRestrictive,
+  getRateLimiter,
+  getRateLimitHeaders,
+  type RateLimitResult,
+} from "@/lib/middleware/rate-limit";
+import {
+  API_ERROR_CODES,
+  ApiRequestError,
+  toApiErrorEnvelope,
+} from "@/lib/services/api-error";
+import { getMetrics } from "@/lib/services/metrics";
+import {
+  REQUEST_ID_HEADER,
+  createLogger,
+  resolveRequestId,
+} from "@/lib/utils/logger";
+
+const logger = createLogger("middleware");
+
+/**
+ * Builds a 401 response in the shared error envelope
+ */
+function unauthorized(message: string, requestId: string): NextResponse {
+  const { status, body } = toApiErrorEnvelope(
+    new ApiRequestError(message, {
+      status: 401,
+      code: API_ERROR_CODES.UNAUTHORIZED,
+    }),
+    message
+  );
+  return NextResponse.json(body, {
+    status,
+    headers: { [REQUEST_ID_HEADER]: requestId },
+  });
+}
+
+/**
+ * Builds a 429 response in the shared error envelope
+ */
+function tooManyRequests(
+  rateLimit: RateLimitResult,
+  requestId: string
+): NextResponse {
+  getMetrics().rateLimitRejections.inc({ rule: rateLimit.rule });
+  const { status, body } = toApiErrorEnvelope(
+    new ApiRequestError("Too many requests", { status: 429 }),
+    "Too many requests"
+  );
+  return NextResponse.json(body, {
+    status,
+    headers: {
+      ...getRateLimitHeaders(rateLimit),
+      [REQUEST_ID_HEADER]: requestId,
+    },
+  });
+}
 
 /**
- * Middleware to validate JWT tokens
+ * Middleware to validate JWT tokens and rate limit API routes
  *
- * Excludes:
- * - /api/health (health check endpoint)
- * - Static files
- * - Next.js internal routes
+ * Which paths require a JWT is defined by ROUTE_PROTECTION
+ * (lib/middleware/security.ts). Reserved `x-ampeco-*` request headers are
+ * removed on every path before the JWT context is derived.
  */
 export async function middleware(request: NextRequest) {
-  // Skip health check endpoint
-  if (request.nextUrl.pathname === "/api/health") {
-    return NextResponse.next();
+  // Never trust a JWT context sent by the client
+  const requestHeaders = stripReservedHeaders(request.headers);
+
+  const access = getRouteAccess(request.nextUrl.pathname);
+  if (access === "dev" && !isDevIssuerEnabled()) {
+    const { status, body } = toApiErrorEnvelope(
+      new ApiRequestError("Not found", { status: 404 }),
+      "Not found"
+    );
+    return NextResponse.json(body, { status });
   }
+  if (access !== "authenticated") {
+    return NextResponse.next({ request: { headers: requestHeaders } });
+  }
+
+  // Correlates log lines of this request here, in the route handlers and
+  // upstream at AMPECO
+  const requestId = resolveRequestId(request.headers.get(REQUEST_ID_HEADER));
+  const log = logger.child({ requestId });
 
-  // Skip static files and Next.js internals
-  if (
-    request.nextUrl.pathname.startsWith("/_next") ||
-    request.nextUrl.pathname.startsWith("/favicon.ico") ||
-    request.nextUrl.pathname.match(/\.(ico|png|jpg|jpeg|svg|css|js)$/)
-  ) {
-    return NextResponse.next();
+  // Count API requests per client IP before verifying anything, so missing
+  // or invalid tokens (and the JWKS refetches of unknown kids) are limited
+  const isApiRequest = request.nextUrl.pathname.startsWith("/api/");
+  const clientIp = getClientIp(request.headers);
+  const ipRateLimit =
+    isApiRequest && clientIp !== UNKNOWN_IP
+      ? await getRateLimiter().check(request.nextUrl.pathname, {
+          ip: clientIp,
+        })
+      : null;
+  if (ipRateLimit && !ipRateLimit.allowed) {
+    log.warn("Rate limit exceeded", {
+      path: request.nextUrl.pathname,
+      ip: clientIp,
+      retryAfterMs: ipRateLimit.retryAfterMs,
+    });
+    return tooManyRequests(ipRateLimit, requestId);
   }
 
-  // Extract JWT token
-  const token = extractJwtToken(request);
+  // Extract JWT token: a token in the URL or Authorization header wins
+  // (a reloaded widget brings a fresh one), then the session cookie
+  const requestToken = extractJwtToken(request);
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  const sessionToken = sessionCookie ? await openSession(sessionCookie) : null;
+  const token = requestToken ?? sessionToken;
+  const fromSessionCookie = !requestToken;
 
   if (!token) {
-    return NextResponse.json(
-      {
-        error: "Missing JWT token",
-        message:
-          "JWT token is required. Please ensure the widget is loaded from AMPECO backend.",
-      },
-      { status: 401 }
+    getMetrics().jwtFailures.inc({ reason: "missing_token" });
+    const response = unauthorized(
+      "JWT token is required. Please ensure the widget is loaded from AMPECO backend.",
+      requestId
     );
+    if (sessionCookie) {
+      clearSessionCookie(response);
+    }
+    return response;
   }
 
   try {
-    // Get expected audience from request origin
-    const origin = request.headers.get("origin") || request.nextUrl.origin;
-    const expectedAudience = origin;
-
-    // Verify JWT token
-    const payload = await verifyJwt(token, expectedAudience);
+    // The widget's own origin is the expected audience unless
+    // AMPECO_JWT_AUDIENCES is set (the client-controlled Origin header is
+    // not used)
+    const payload = await verifyJwt(token, request.nextUrl.origin);
+    const sessionExpiresAt =
+      payload.exp ?? Math.floor(Date.now() / 1000) + 3600;
 
     // Store JWT payload in request headers for Server Components
     // Note: Headers are immutable in Next.js, so we use a custom header
-    const requestHeaders = new Headers(request.headers);
     requestHeaders.set("x-ampeco-user-id", payload.user_id.toString());
     requestHeaders.set("x-ampeco-app-id", payload.app_id.toString());
     requestHeaders.set("x-ampeco-widget-id", payload.widget_id.toString());
+    requestHeaders.set(
+      "x-ampeco-widget-name",
+      encodeURIComponent(payload.widget_name ?? "")
+    );
     requestHeaders.set("x-ampeco-impersonate", payload.impersonate.toString());
+    requestHeaders.set(
+      "x-ampeco-resource",
+      encodeURIComponent(payload.resource ?? "")
+    );
+    if (payload.resource_id !== undefined && payload.resource_id !== null) {
+      requestHeaders.set(
+        "x-ampeco-resource-id",
+        encodeURIComponent(String(payload.resource_id))
+      );
+    }
     requestHeaders.set("x-ampeco-jwt-token", token); // Store token for API calls
     requestHeaders.set("x-ampeco-tenant-url", payload.iss);
+    requestHeaders.set(REQUEST_ID_HEADER, requestId);
+
+    // Swap the URL token for the session cookie and reload without it, so
+    // the JWT stays out of logs, history and Referer headers
+    if (
+      isSessionEnabled() &&
+      request.method === "GET" &&
+      request.nextUrl.searchParams.has("token") &&
+      !request.nextUrl.pathname.startsWith("/api/")
+    ) {
+      const checkingCookie =
+        request.nextUrl.searchParams.has(SESSION_CHECK_PARAM);
+
+      // Keep the token until the cookie is known to come back. A token
+      // whose cookie did not come back before is not exchanged again, and
+      // one that started a session is rejected (with
+      // AMPECO_JWT_REPLAY_PROTECTION)
+      if (
+        !checkingCookie &&
+        (await checkJwtUse(token, payload, "url")) !== "url"
+      ) {
+        const checkUrl = request.nextUrl.clone();
+        checkUrl.searchParams.set(SESSION_CHECK_PARAM, "1");
+        const response = NextResponse.redirect(checkUrl, {
+          status: 303,
+          headers: { [REQUEST_ID_HEADER]: requestId },
+        });
+        await setSessionCookie(response, token, sessionExpiresAt);
+        setCsrfCookie(response, createCsrfToken(payload), sessionExpiresAt);
+        return response;
+      }
+
+      if (checkingCookie && sessionToken === token) {
+        // One session per token (AMPECO_JWT_REPLAY_PROTECTION)
+        await consumeJwt(token, payload, "session");
+
+        const cleanUrl = request.nextUrl.clone();
+        cleanUrl.searchParams.delete("token");
+        cleanUrl.searchParams.delete(SESSION_CHECK_PARAM);
+        return NextResponse.redirect(cleanUrl, {
+          status: 303,
+          headers: { [REQUEST_ID_HEADER]: requestId },
+        });
+      }
+
+      // The browser did not store the cookie (e.g. partitioned cookies
+      // blocked in the iframe): keep authenticating with the URL token
+      await consumeJwt(token, payload, "url");
+      if (checkingCookie) {
+        log.info("Session cookie was not stored, keeping the URL token", {
+          path: request.nextUrl.pathname,
+        });
+      }
+    }
+
+    if (!request.nextUrl.pathname.startsWith("/api/")) {
+      const response = NextResponse.next({
+        request: {
+          headers: requestHeaders,
+        },
+        headers: { [REQUEST_ID_HEADER]: requestId },
+      });
+      // Reissue a CSRF cookie that is missing or no longer matches (e.g.
+      // after CSRF_SECRET was rotated)
+      const csrfCookie = request.cookies.get(CSRF_COOKIE_NAME)?.value;
+      if (
+        fromSessionCookie &&
+        (!csrfCookie || !verifyCsrfToken(csrfCookie, payload))
+      ) {
+        setCsrfCookie(response, createCsrfToken(payload), sessionExpiresAt);
+      }
+      return response;
+    }
+
+    if (isMutatingMethod(request.method)) {
+      const csrfFailure = checkCsrf(request, payload, fromSessionCookie);
+      if (csrfFailure) {
+        getMetrics().csrfRejections.inc({ reason: csrfFailure });
+        log.warn("CSRF check failed", {
+          path: request.nextUrl.pathname,
+          method: request.method,
+          reason: csrfFailure,
+        });
+        const { status, body } = toApiErrorEnvelope(
+          new ApiRequestError("CSRF validation failed", {
+            status: 403,
+            code: API_ERROR_CODES.CSRF_FAILED,
+          }),
+          "CSRF validation failed"
+        );
+        return NextResponse.json(body, {
+          status,
+          headers: { [REQUEST_ID_HEADER]: requestId },
+        });
+      }
+    }
+
+    // Rate limit API routes per user and app (the IP was counted above)
+    const userRateLimit = await getRateLimiter().check(
+      request.nextUrl.pathname,
+      { userId: payload.user_id, appId: payload.app_id, tenant: payload.iss }
+    );
+    const rateLimit = getMostRestrictive(
+      ipRateLimit ? [ipRateLimit, userRateLimit] : [userRateLimit]
+    );
+
+    if (!rateLimit.allowed) {
+      log.warn("Rate limit exceeded", {
+        path: request.nextUrl.pathname,
+        userId: payload.user_id,
+        retryAfterMs: rateLimit.retryAfterMs,
+      });
+      return tooManyRequests(rateLimit, requestId);
+    }
+
+    const responseHeaders = {
+      ...getRateLimitHeaders(rateLimit),
+      [REQUEST_ID_HEADER]: requestId,
+    };
 
     return NextResponse.next({
       request: {
         headers: requestHeaders,
       },
+      headers: responseHeaders,
     });
   } catch (error) {
-    console.error("JWT verification failed:", error);
-
-    return NextResponse.json(
-      {
-        error: "JWT verification failed",
-        message:
-          error instanceof Error
-            ? error.message
-            : "Invalid or expired JWT token. Please refresh the page.",
-      },
-      { status: 401 }
+    log.warn("JWT verification failed", {
+      path: request.nextUrl.pathname,
+      reason: error instanceof JwtVerificationError ? error.reason : "unknown",
+      error,
+    });
+
+    // Only verification errors are meant for the client; anything else
+    // (e.g. a broken tenant registry) may carry configuration details
+    const response = unauthorized(
+      error instanceof JwtVerificationError
+        ? error.message
+        : "Invalid or expired JWT token. Please refresh the page.",
+      requestId
     );
+    // Drop a session whose token is no longer accepted
+    if (sessionCookie && (fromSessionCookie || sessionToken === token)) {
+      clearSessionCookie(response);
+    }
+    return response;
   }
 }
 
 /**
- * Middleware matcher - only run on specific routes
- * Exclude API routes except those that need auth
+ * Middleware matcher
+ *
+ * Runs on every path except static assets, so reserved headers are
+ * stripped everywhere; ROUTE_PROTECTION decides which paths need a JWT.
  */
 export const config = {
   matcher: [
     /*
-     * Match all request paths except for the ones starting with:
-     * - api/health (health check)
+     * Match all request paths except for:
      * - _next/static (static files)
      * - _next/image (image optimization files)
-     * - favicon.ico (favicon file)
+     * - favicon.ico and image, CSS and JS files outside /api (an API path
+     *   such as /api/charge-points/v1.0/1.png must still be authenticated)
      */
-    "/((?!api/health|_next/static|_next/image|favicon.ico).*)",
+    "/((?!_next/static|_next/image|favicon.ico|(?!api/).*\\.(?:ico|png|jpg|jpeg|svg|css|js)$).*)",
   ],
+  // In-process state (metrics, rate limit counters, caches) is shared with
+  // the route handlers only on the Node.js runtime
+  runtime: "nodejs",
 };
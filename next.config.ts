@@ -5,7 +5,8 @@ const nextConfig: NextConfig = {
   outputFileTracingRoot: path.join(__dirname, "../"),
 
   /* config options here */
-  transpilePackages: ["@ampeco/ampeco-ui"],
+  // jose ships ESM only; listing it here also lets next/jest transform it
+  transpilePackages: ["@ampeco/ampeco-ui", "jose"],
 
   async headers() {
     return [